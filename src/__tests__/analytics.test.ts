@@ -0,0 +1,84 @@
+import type { ClosedTradeItem } from "../api";
+import { buildEquityCurve, computeStats, longestLosingStreak, maxDrawdown } from "../analytics";
+
+let nextId = 1;
+
+function trade(pnl: number, closedAt: string): ClosedTradeItem {
+    return {
+        id: nextId++,
+        symbol: "XAUUSD",
+        side: "buy",
+        quantity: 1,
+        entry_price: 2350,
+        close_price: 2350,
+        pnl,
+        close_reason: pnl >= 0 ? "take_profit" : "stop_loss",
+        opened_at: closedAt,
+        closed_at: closedAt,
+        mode: "live",
+    };
+}
+
+describe("maxDrawdown", () => {
+    it("measures the largest fall from a running peak", () => {
+        const trades = [
+            trade(10, "2026-01-01T10:00:00Z"),
+            trade(-4, "2026-01-01T11:00:00Z"),
+            trade(5, "2026-01-01T12:00:00Z"),
+            trade(-8, "2026-01-01T13:00:00Z"),
+            trade(-3, "2026-01-01T14:00:00Z"),
+        ];
+        // Peak 11 after the third trade, trough 0 after the last.
+        expect(maxDrawdown(buildEquityCurve(trades))).toBe(11);
+    });
+
+    it("orders trades by close time before building the curve", () => {
+        const trades = [trade(-5, "2026-01-01T12:00:00Z"), trade(5, "2026-01-01T10:00:00Z")];
+        expect(maxDrawdown(buildEquityCurve(trades))).toBe(5);
+    });
+
+    it("counts a loss from the starting equity as drawdown", () => {
+        expect(maxDrawdown(buildEquityCurve([trade(-2, "2026-01-01T10:00:00Z")]))).toBe(2);
+    });
+
+    it("is zero when equity only rises", () => {
+        const trades = [trade(1, "2026-01-01T10:00:00Z"), trade(2, "2026-01-01T11:00:00Z")];
+        expect(maxDrawdown(buildEquityCurve(trades))).toBe(0);
+    });
+});
+
+describe("computeStats", () => {
+    it("divides gross profit by gross loss for the profit factor", () => {
+        const stats = computeStats([
+            trade(6, "2026-01-01T10:00:00Z"),
+            trade(-2, "2026-01-01T11:00:00Z"),
+            trade(-1, "2026-01-01T12:00:00Z"),
+        ]);
+        expect(stats.grossProfit).toBe(6);
+        expect(stats.grossLoss).toBe(3);
+        expect(stats.profitFactor).toBe(2);
+        expect(stats.netPnl).toBe(3);
+        expect(stats.winRate).toBeCloseTo(1 / 3);
+    });
+
+    it("reports no profit factor without losing trades", () => {
+        expect(computeStats([trade(4, "2026-01-01T10:00:00Z")]).profitFactor).toBeNull();
+    });
+
+    it("returns zeros for no trades", () => {
+        const stats = computeStats([]);
+        expect(stats).toMatchObject({ trades: 0, winRate: 0, expectancy: 0, maxDrawdown: 0, profitFactor: null });
+    });
+});
+
+describe("longestLosingStreak", () => {
+    it("counts consecutive losses in close order", () => {
+        const trades = [
+            trade(-1, "2026-01-01T10:00:00Z"),
+            trade(-1, "2026-01-01T11:00:00Z"),
+            trade(2, "2026-01-01T12:00:00Z"),
+            trade(-1, "2026-01-01T13:00:00Z"),
+        ];
+        expect(longestLosingStreak(trades)).toBe(2);
+    });
+});
@@ -0,0 +1,88 @@
+import {
+    ConfigPreset,
+    PRESET_DOCUMENT_FORMAT,
+    PRESET_DOCUMENT_VERSION,
+    exportPresets,
+    mergePresets,
+    parsePresetDocument,
+} from "../presets";
+
+function preset(name: string, dailyLossLimit: number = 0.25): ConfigPreset {
+    return {
+        name,
+        saved_at: "2026-03-01T00:00:00.000Z",
+        config: {
+            trading: {
+                assets: ["XAUUSD", "EURUSD"],
+                timeframe: "M1",
+                max_trades_per_session: 10,
+                quantity: 1,
+                profit_threshold: 0.3,
+                loss_threshold: -0.25,
+                symbol_overrides: [],
+            },
+            risk: { daily_profit_target: 0.3, daily_loss_limit: dailyLossLimit, allocated_capital: 50 },
+            session: { duration_minutes: 120 },
+        },
+    };
+}
+
+function documentWith(fields: Record<string, unknown>): string {
+    return JSON.stringify({
+        format: PRESET_DOCUMENT_FORMAT,
+        version: PRESET_DOCUMENT_VERSION,
+        exported_at: "2026-03-01T00:00:00.000Z",
+        presets: [preset("Calm")],
+        ...fields,
+    });
+}
+
+describe("parsePresetDocument", () => {
+    it("reads back what exportPresets wrote", () => {
+        const presets = [preset("Calm"), preset("Tight", 0.1)];
+        expect(parsePresetDocument(exportPresets(presets))).toEqual(presets);
+    });
+
+    it("rejects text that is not JSON", () => {
+        expect(() => parsePresetDocument("not json")).toThrow("This is not a JSON document");
+    });
+
+    it("rejects documents in another format", () => {
+        expect(() => parsePresetDocument(documentWith({ format: "something-else" }))).toThrow(
+            "This is not a valid presets document",
+        );
+    });
+
+    it("rejects documents from a newer format version", () => {
+        expect(() => parsePresetDocument(documentWith({ version: PRESET_DOCUMENT_VERSION + 1 }))).toThrow(
+            "newer version",
+        );
+    });
+
+    it("still imports documents from older format versions", () => {
+        expect(parsePresetDocument(documentWith({ version: 0 }))).toHaveLength(1);
+    });
+
+    it("rejects presets without a name", () => {
+        expect(() => parsePresetDocument(documentWith({ presets: [preset("  ")] }))).toThrow("a name is required");
+    });
+
+    it("rejects values the configure form would not save, such as a loss limit above the capital", () => {
+        expect(() => parsePresetDocument(documentWith({ presets: [preset("Reckless", 500)] }))).toThrow('"Reckless"');
+    });
+
+    it("rejects presets with missing sections", () => {
+        const { risk: _risk, ...config } = preset("Partial").config;
+        expect(() => parsePresetDocument(documentWith({ presets: [{ name: "Partial", config }] }))).toThrow(
+            "This is not a valid presets document",
+        );
+    });
+});
+
+describe("mergePresets", () => {
+    it("replaces presets with the same name regardless of case and sorts by name", () => {
+        const merged = mergePresets([preset("calm"), preset("Bold")], [preset("Calm", 0.1)]);
+        expect(merged.map((item) => item.name)).toEqual(["Bold", "Calm"]);
+        expect(merged[1].config.risk.daily_loss_limit).toBe(0.1);
+    });
+});
@@ -0,0 +1,103 @@
+import type { ClosedTradeItem } from "../api";
+import {
+    REPORT_DOCUMENT_FORMAT,
+    TRADE_COLUMNS,
+    TradeReport,
+    buildReportFile,
+    reportToJson,
+    toCsv,
+    validateReportRange,
+} from "../reportExport";
+
+type Row = { text: string; amount: number };
+
+const columns = [
+    { header: "text", value: (row: Row) => row.text },
+    { header: "amount", value: (row: Row) => row.amount },
+];
+
+function trade(overrides: Partial<ClosedTradeItem> = {}): ClosedTradeItem {
+    return {
+        id: 1,
+        symbol: "EURUSD",
+        side: "sell",
+        quantity: 2,
+        entry_price: 1.085,
+        close_price: 1.084,
+        pnl: -0.25,
+        close_reason: "stop_loss",
+        opened_at: "2026-03-02T09:00:00.000Z",
+        closed_at: "2026-03-02T09:05:00.000Z",
+        mode: "live",
+        ...overrides,
+    };
+}
+
+describe("toCsv", () => {
+    it("writes a header row and CRLF line endings", () => {
+        expect(toCsv(columns, [{ text: "a", amount: 1 }])).toBe("text,amount\r\na,1\r\n");
+    });
+
+    it("quotes fields with commas, quotes or line breaks", () => {
+        const csv = toCsv(columns, [{ text: 'say "hi", then\nleave', amount: 0 }]);
+        expect(csv).toBe('text,amount\r\n"say ""hi"", then\nleave",0\r\n');
+    });
+
+    it("prefixes text a spreadsheet would run as a formula", () => {
+        const rows = ["=SUM(A1:A2)", "+1", "-1", "@cmd", "\tx"].map((text) => ({ text, amount: 0 }));
+        const fields = toCsv(columns, rows)
+            .trimEnd()
+            .split("\r\n")
+            .slice(1)
+            .map((line) => line.split(",")[0]);
+        expect(fields).toEqual(["'=SUM(A1:A2)", "'+1", "'-1", "'@cmd", "'\tx"]);
+    });
+
+    it("leaves negative numbers numeric and blanks non-finite ones", () => {
+        expect(toCsv(columns, [{ text: "x", amount: -0.25 }])).toBe("text,amount\r\nx,-0.25\r\n");
+        expect(toCsv(columns, [{ text: "x", amount: Number.NaN }])).toBe("text,amount\r\nx,\r\n");
+    });
+
+    it("keeps the trade columns in their published order", () => {
+        expect(toCsv(TRADE_COLUMNS, [trade()]).split("\r\n")[0]).toBe(
+            "id,symbol,side,quantity,entry_price,close_price,pnl,close_reason,opened_at,closed_at,mode",
+        );
+    });
+});
+
+describe("validateReportRange", () => {
+    it("accepts a range of real days", () => {
+        expect(validateReportRange({ from: "2026-02-01", to: "2026-02-28" })).toBeNull();
+    });
+
+    it("rejects days that do not exist and reversed ranges", () => {
+        expect(validateReportRange({ from: "2026-02-30", to: "2026-03-01" })).not.toBeNull();
+        expect(validateReportRange({ from: "2026-3-1", to: "2026-03-02" })).not.toBeNull();
+        expect(validateReportRange({ from: "2026-03-02", to: "2026-03-01" })).not.toBeNull();
+    });
+});
+
+describe("report files", () => {
+    const report: TradeReport = {
+        range: { from: "2026-03-01", to: "2026-03-31" },
+        mode: "paper",
+        trades: [trade({ mode: "paper" }), trade({ id: 2, pnl: 0.5, mode: "paper" })],
+        dailyPnl: [{ date: "2026-03-02", realized_pnl: 0.25, trades: 2 }],
+    };
+
+    it("marks paper exports in the file name", () => {
+        expect(buildReportFile("trades-csv", report).name).toBe("apex-scalper-paper-trades_2026-03-01_2026-03-31.csv");
+    });
+
+    it("writes the JSON document with its format, totals and both tables", () => {
+        const document = JSON.parse(reportToJson(report, new Date("2026-04-01T00:00:00Z")));
+        expect(document).toMatchObject({
+            format: REPORT_DOCUMENT_FORMAT,
+            exported_at: "2026-04-01T00:00:00.000Z",
+            mode: "paper",
+            summary: { trades: 2, realized_pnl: 0.25, wins: 1 },
+            daily_pnl: [{ date: "2026-03-02", realized_pnl: 0.25, trades: 2 }],
+        });
+        expect(document.trades[1]).toMatchObject({ id: 2, pnl: 0.5, mode: "paper" });
+    });
+});
@@ -0,0 +1,159 @@
+import * as BackgroundTask from "expo-background-task";
+import * as Linking from "expo-linking";
+import * as Notifications from "expo-notifications";
+import * as TaskManager from "expo-task-manager";
+import { Platform } from "react-native";
+
+import { AlertWatchState, DeviceAlert, initialAlertWatchState, mergeAlertSettings, planAlerts } from "./alerts";
+import {
+    NotificationItem,
+    getAuthSession,
+    getBotStatus,
+    getLicenseStatus,
+    getNotifications,
+    setAuthSession,
+} from "./api";
+import {
+    loadAlertSettings,
+    loadAlertWatchState,
+    loadPersistedState,
+    saveAlertWatchState,
+    savePersistedSession,
+} from "./storage";
+
+export const ALERT_TASK = "apex-scalper/alert-watch";
+
+const ALERT_CHANNEL = "bot-alerts";
+// The OS treats this as a lower bound; checks usually run less often.
+const CHECK_INTERVAL_MINUTES = 15;
+const NOTIFICATION_PAGE_SIZE = 50;
+
+Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+    }),
+});
+
+TaskManager.defineTask(ALERT_TASK, async () => {
+    try {
+        await checkForAlerts();
+        return BackgroundTask.BackgroundTaskResult.Success;
+    } catch {
+        return BackgroundTask.BackgroundTaskResult.Failed;
+    }
+});
+
+function alertPath(alert: DeviceAlert): string {
+    if (alert.tradeId !== undefined) {
+        return `trades/${alert.tradeId}`;
+    }
+    if (alert.notificationId !== undefined) {
+        return `notifications/${alert.notificationId}`;
+    }
+    return "home";
+}
+
+async function deliver(alert: DeviceAlert): Promise<void> {
+    await Notifications.scheduleNotificationAsync({
+        identifier: alert.key,
+        content: {
+            title: alert.title,
+            body: alert.body,
+            data: { url: Linking.createURL(alertPath(alert)) },
+        },
+        trigger: Platform.OS === "android" ? { channelId: ALERT_CHANNEL } : null,
+    });
+}
+
+// Pages back, newest first, until the last notification already seen, so a busy stretch between checks
+// cannot push an alert off the first page. The first check only records the newest id and needs one page.
+async function notificationsSince(
+    userId: string,
+    state: AlertWatchState,
+    baseUrl: string,
+): Promise<NotificationItem[]> {
+    const items: NotificationItem[] = [];
+    let cursor: string | undefined;
+    do {
+        const page = await getNotifications(userId, { cursor, limit: NOTIFICATION_PAGE_SIZE }, baseUrl, { retries: 0 });
+        items.push(...page.items);
+        if (!state.primed || page.items.some((item) => item.id <= state.lastNotificationId)) {
+            break;
+        }
+        if (page.next_cursor !== null && page.next_cursor === cursor) {
+            throw new Error("The notifications kept returning the same page");
+        }
+        cursor = page.next_cursor ?? undefined;
+    } while (cursor !== undefined);
+    return items;
+}
+
+// Runs headless from the background task, so it reads the session and base URL from storage rather
+// than from the app store. Returns how many alerts were fired.
+export async function checkForAlerts(now: Date = new Date()): Promise<number> {
+    const [saved, settings, watchState] = await Promise.all([
+        loadPersistedState(),
+        loadAlertSettings(),
+        loadAlertWatchState(),
+    ]);
+    if (!saved?.session || !settings?.enabled) {
+        return 0;
+    }
+    if (!getAuthSession()) {
+        setAuthSession(saved.session);
+    }
+
+    const userId = saved.session.user_id;
+    const state = watchState ?? initialAlertWatchState;
+    const [notifications, botStatus, license] = await Promise.all([
+        notificationsSince(userId, state, saved.apiBaseUrl),
+        getBotStatus(userId, saved.apiBaseUrl, { retries: 0 }).catch(() => null),
+        getLicenseStatus(userId, saved.apiBaseUrl, { retries: 0 }).catch(() => null),
+    ]);
+
+    const plan = planAlerts(
+        { notifications, botStatus, license },
+        state,
+        mergeAlertSettings(settings),
+        now,
+    );
+    for (const alert of plan.alerts) {
+        await deliver(alert);
+    }
+    await saveAlertWatchState(plan.state);
+
+    // A token refreshed during the check has to be written back, or the app starts with a stale one.
+    const session = getAuthSession();
+    if (session && session.access_token !== saved.session.access_token) {
+        await savePersistedSession(session);
+    }
+    return plan.alerts.length;
+}
+
+// Asks for notification permission and schedules the background check. Returns false when the
+// user declines, in which case alerts stay off.
+export async function enableAlertWatcher(): Promise<boolean> {
+    const permission = await Notifications.requestPermissionsAsync();
+    if (!permission.granted) {
+        return false;
+    }
+    if (Platform.OS === "android") {
+        await Notifications.setNotificationChannelAsync(ALERT_CHANNEL, {
+            name: "Bot alerts",
+            importance: Notifications.AndroidImportance.HIGH,
+        });
+    }
+    if (!(await TaskManager.isTaskRegisteredAsync(ALERT_TASK))) {
+        await BackgroundTask.registerTaskAsync(ALERT_TASK, { minimumInterval: CHECK_INTERVAL_MINUTES });
+    }
+    return true;
+}
+
+export async function disableAlertWatcher(): Promise<void> {
+    if (await TaskManager.isTaskRegisteredAsync(ALERT_TASK)) {
+        await BackgroundTask.unregisterTaskAsync(ALERT_TASK);
+    }
+}
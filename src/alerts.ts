@@ -0,0 +1,180 @@
+import type { BotStatusResponse, LicenseStatusResponse, NotificationItem } from "./api";
+
+export type QuietHours = {
+    enabled: boolean;
+    // Local wall-clock times as HH:MM; a start after the end spans midnight.
+    start: string;
+    end: string;
+};
+
+export type AlertSettings = {
+    enabled: boolean;
+    eventTypes: Record<string, boolean>;
+    quietHours: QuietHours;
+};
+
+export type AlertWatchState = {
+    // False until the first check, which records what already exists instead of alerting on it.
+    primed: boolean;
+    lastNotificationId: number;
+    sentKeys: string[];
+};
+
+export type AlertSources = {
+    notifications: NotificationItem[];
+    botStatus: BotStatusResponse | null;
+    license: LicenseStatusResponse | null;
+};
+
+export type DeviceAlert = {
+    key: string;
+    eventType: string;
+    title: string;
+    body: string;
+    tradeId?: number;
+    notificationId?: number;
+    stopCode?: string;
+};
+
+export const ALERT_EVENT_TYPES: { value: string; label: string; critical: boolean }[] = [
+    { value: "kill_switch", label: "Kill switch used", critical: true },
+    { value: "bot_stopped", label: "Bot stopped", critical: true },
+    { value: "loss_limit_hit", label: "Daily loss limit hit", critical: true },
+    { value: "license_expiring", label: "License expiring or expired", critical: true },
+    { value: "mt5_disconnected", label: "MT5 disconnected", critical: true },
+    { value: "bot_started", label: "Bot started", critical: false },
+    { value: "trade_opened", label: "Trade opened", critical: false },
+    { value: "trade_closed", label: "Trade closed", critical: false },
+];
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+    enabled: false,
+    eventTypes: Object.fromEntries(ALERT_EVENT_TYPES.map((type) => [type.value, type.critical])),
+    quietHours: { enabled: false, start: "22:00", end: "07:00" },
+};
+
+export const initialAlertWatchState: AlertWatchState = { primed: false, lastNotificationId: 0, sentKeys: [] };
+
+const MAX_SENT_KEYS = 100;
+// Stops the user caused from the app are not worth a device alert; the kill switch has its own event.
+// A stop without a code still alerts, as nothing says the user caused it.
+const USER_STOP_CODES = new Set(["user", "kill_switch"]);
+const LICENSE_WARNING_MS = 3 * 86_400_000;
+const CLOCK_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+export function parseClock(text: string): number | null {
+    const match = CLOCK_PATTERN.exec(text.trim());
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+// Event types added after the settings were saved fall back to their defaults.
+export function mergeAlertSettings(saved: AlertSettings | null): AlertSettings {
+    if (!saved) {
+        return DEFAULT_ALERT_SETTINGS;
+    }
+    return {
+        ...DEFAULT_ALERT_SETTINGS,
+        ...saved,
+        eventTypes: { ...DEFAULT_ALERT_SETTINGS.eventTypes, ...saved.eventTypes },
+        quietHours: { ...DEFAULT_ALERT_SETTINGS.quietHours, ...saved.quietHours },
+    };
+}
+
+export function isQuietTime(quietHours: QuietHours, at: Date): boolean {
+    const start = parseClock(quietHours.start);
+    const end = parseClock(quietHours.end);
+    if (!quietHours.enabled || start === null || end === null || start === end) {
+        return false;
+    }
+    const minute = at.getHours() * 60 + at.getMinutes();
+    return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+function candidateAlerts(sources: AlertSources, state: AlertWatchState, now: number): DeviceAlert[] {
+    const alerts: DeviceAlert[] = sources.notifications
+        .filter((item) => item.id > state.lastNotificationId)
+        .sort((a, b) => a.id - b.id)
+        .map((item) => ({
+            key: `notification:${item.id}`,
+            eventType: item.event_type,
+            title: item.title,
+            body: item.message,
+            tradeId: item.trade_id,
+            notificationId: item.id,
+            stopCode: item.stop_code,
+        }));
+
+    // The backend may not have written a notification for every stop, so the status is checked as well.
+    const bot = sources.botStatus;
+    if (bot && !bot.running && bot.stop_reason) {
+        alerts.push({
+            key: `bot_stopped:${bot.started_at ?? ""}:${bot.stop_reason}`,
+            eventType: "bot_stopped",
+            title: "Bot stopped",
+            body: bot.stop_reason,
+            stopCode: bot.stop_code,
+        });
+    }
+
+    const license = sources.license;
+    if (license?.has_license) {
+        const expiresAt = license.expires_at ? new Date(license.expires_at).getTime() : NaN;
+        if (!license.valid) {
+            alerts.push({
+                key: `license_expired:${license.expires_at ?? license.status ?? ""}`,
+                eventType: "license_expiring",
+                title: "License expired",
+                body: license.message || "The bot cannot trade until the license is renewed.",
+            });
+        } else if (expiresAt - now < LICENSE_WARNING_MS) {
+            alerts.push({
+                key: `license_expiring:${license.expires_at}`,
+                eventType: "license_expiring",
+                title: "License expiring soon",
+                body: `Your license expires ${new Date(expiresAt).toLocaleString()}.`,
+            });
+        }
+    }
+    return alerts;
+}
+
+// Decides which device alerts to fire for the latest backend snapshot and returns the state to store
+// for the next check. During quiet hours nothing is sent and the state is left alone, so alerts that are
+// still relevant fire once quiet hours end.
+export function planAlerts(
+    sources: AlertSources,
+    state: AlertWatchState,
+    settings: AlertSettings,
+    at: Date,
+): { alerts: DeviceAlert[]; state: AlertWatchState } {
+    if (state.primed && isQuietTime(settings.quietHours, at)) {
+        return { alerts: [], state };
+    }
+
+    const candidates = candidateAlerts(sources, state, at.getTime());
+    const sent = new Set(state.sentKeys);
+    // A stop reported both as a notification and in the bot status is only announced once.
+    const stopNotified = candidates.some((alert) => alert.notificationId && alert.eventType === "bot_stopped");
+    const alerts = state.primed
+        ? candidates.filter(
+              (alert) =>
+                  !sent.has(alert.key) &&
+                  settings.eventTypes[alert.eventType] &&
+                  !(alert.eventType === "bot_stopped" && USER_STOP_CODES.has(alert.stopCode ?? "")) &&
+                  !(stopNotified && !alert.notificationId && alert.eventType === "bot_stopped"),
+          )
+        : [];
+
+    // Notifications are covered by the id watermark; only status-derived alerts need their keys kept.
+    const newKeys = candidates
+        .filter((alert) => alert.notificationId === undefined && !sent.has(alert.key))
+        .map((alert) => alert.key);
+    return {
+        alerts,
+        state: {
+            primed: true,
+            lastNotificationId: Math.max(state.lastNotificationId, ...sources.notifications.map((item) => item.id)),
+            sentKeys: [...state.sentKeys, ...newKeys].slice(-MAX_SENT_KEYS),
+        },
+    };
+}
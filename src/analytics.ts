@@ -0,0 +1,157 @@
+import type { ClosedTradeItem } from "./api";
+
+export type PerformanceStats = {
+    trades: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    netPnl: number;
+    grossProfit: number;
+    grossLoss: number;
+    averageWin: number;
+    averageLoss: number;
+    // null when there are no losing trades to divide by.
+    profitFactor: number | null;
+    expectancy: number;
+    maxDrawdown: number;
+    longestLosingStreak: number;
+};
+
+export type EquityPoint = {
+    time: string;
+    equity: number;
+};
+
+export type GroupPeriod = "day" | "week" | "session";
+
+export type GroupStats = {
+    key: string;
+    stats: PerformanceStats;
+};
+
+export type MarketSession = "asia" | "london" | "new_york" | "off_hours";
+
+function sortByCloseTime(trades: ClosedTradeItem[]): ClosedTradeItem[] {
+    return [...trades].sort((a, b) => new Date(a.closed_at).getTime() - new Date(b.closed_at).getTime());
+}
+
+function sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+}
+
+export function buildEquityCurve(trades: ClosedTradeItem[], startingEquity: number = 0): EquityPoint[] {
+    let equity = startingEquity;
+    return sortByCloseTime(trades).map((trade) => {
+        equity += trade.pnl;
+        return { time: trade.closed_at, equity };
+    });
+}
+
+// Largest peak-to-trough fall of cumulative PnL, reported as a positive amount.
+export function maxDrawdown(curve: EquityPoint[], startingEquity: number = 0): number {
+    let peak = startingEquity;
+    let worst = 0;
+    for (const point of curve) {
+        peak = Math.max(peak, point.equity);
+        worst = Math.max(worst, peak - point.equity);
+    }
+    return worst;
+}
+
+export function longestLosingStreak(trades: ClosedTradeItem[]): number {
+    let longest = 0;
+    let current = 0;
+    for (const trade of sortByCloseTime(trades)) {
+        current = trade.pnl < 0 ? current + 1 : 0;
+        longest = Math.max(longest, current);
+    }
+    return longest;
+}
+
+export function computeStats(trades: ClosedTradeItem[]): PerformanceStats {
+    const winning = trades.filter((trade) => trade.pnl > 0).map((trade) => trade.pnl);
+    const losing = trades.filter((trade) => trade.pnl < 0).map((trade) => trade.pnl);
+    const grossProfit = sum(winning);
+    const grossLoss = Math.abs(sum(losing));
+    const netPnl = grossProfit - grossLoss;
+    const averageWin = winning.length ? grossProfit / winning.length : 0;
+    const averageLoss = losing.length ? grossLoss / losing.length : 0;
+    const winRate = trades.length ? winning.length / trades.length : 0;
+    const lossRate = trades.length ? losing.length / trades.length : 0;
+
+    return {
+        trades: trades.length,
+        wins: winning.length,
+        losses: losing.length,
+        winRate,
+        netPnl,
+        grossProfit,
+        grossLoss,
+        averageWin,
+        averageLoss,
+        profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+        expectancy: winRate * averageWin - lossRate * averageLoss,
+        maxDrawdown: maxDrawdown(buildEquityCurve(trades)),
+        longestLosingStreak: longestLosingStreak(trades),
+    };
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, "0");
+}
+
+export function dayKey(timestamp: string): string {
+    const date = new Date(timestamp);
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+// ISO-8601 week, e.g. "2026-W07". Weeks start on Monday and belong to the year of their Thursday.
+export function weekKey(timestamp: string): string {
+    const date = new Date(timestamp);
+    const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    const weekday = target.getUTCDay() || 7;
+    target.setUTCDate(target.getUTCDate() + 4 - weekday);
+    const yearStart = Date.UTC(target.getUTCFullYear(), 0, 1);
+    const week = Math.ceil(((target.getTime() - yearStart) / 86_400_000 + 1) / 7);
+    return `${target.getUTCFullYear()}-W${pad(week)}`;
+}
+
+// Buckets by the UTC hour the trade was opened: Asia 00-07, London 07-12, New York 12-21.
+export function marketSession(timestamp: string): MarketSession {
+    const hour = new Date(timestamp).getUTCHours();
+    if (hour < 7) {
+        return "asia";
+    }
+    if (hour < 12) {
+        return "london";
+    }
+    if (hour < 21) {
+        return "new_york";
+    }
+    return "off_hours";
+}
+
+function groupBy(trades: ClosedTradeItem[], keyOf: (trade: ClosedTradeItem) => string): GroupStats[] {
+    const groups = new Map<string, ClosedTradeItem[]>();
+    for (const trade of trades) {
+        const key = keyOf(trade);
+        groups.set(key, [...(groups.get(key) ?? []), trade]);
+    }
+    return [...groups.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, items]) => ({ key, stats: computeStats(items) }));
+}
+
+export function groupByPeriod(trades: ClosedTradeItem[], period: GroupPeriod): GroupStats[] {
+    if (period === "day") {
+        return groupBy(trades, (trade) => dayKey(trade.closed_at));
+    }
+    if (period === "week") {
+        return groupBy(trades, (trade) => weekKey(trade.closed_at));
+    }
+    return groupBy(trades, (trade) => marketSession(trade.opened_at));
+}
+
+export function breakdownBySymbol(trades: ClosedTradeItem[]): GroupStats[] {
+    return groupBy(trades, (trade) => trade.symbol).sort((a, b) => b.stats.netPnl - a.stats.netPnl);
+}
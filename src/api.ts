@@ -1,9 +1,37 @@
+import {
+    ApiError,
+    RequestOptions,
+    getApiClientConfig,
+    getAuthSession,
+    sendJson,
+    sendVoid,
+    setAuthSession,
+} from "./client";
+import * as schemas from "./schemas";
+import { array } from "./decode";
+
+export {
+    ApiContractError,
+    ApiError,
+    configureApiClient,
+    getActiveAccountId,
+    getAuthSession,
+    isApiError,
+    onSessionChange,
+    onUnauthorized,
+    setActiveAccountId,
+    setAuthSession,
+} from "./client";
+export type { ApiErrorKind, RequestOptions, Transport } from "./client";
+
 export type HealthResponse = { ok: boolean };
 
 export type AuthSession = {
     user_id: string;
     email: string;
     access_token: string;
+    refresh_token: string;
+    expires_at?: string;
 };
 
 export type LicenseStatusResponse = {
@@ -26,21 +54,35 @@ export type DashboardSummaryResponse = {
     bot_running: boolean;
 };
 
+// Paper runs follow the same strategy and risk rules as live ones, but their orders are only recorded by the
+// backend and never reach the broker. Their trades and PnL are reported separately from live results.
+export type TradingMode = "live" | "paper";
+
 export type BotStatusResponse = {
     user_id: string;
     running: boolean;
+    mode: TradingMode;
     started_at?: string;
     trades_opened_this_session: number;
+    // Display text for the last stop; stop_code says what caused it, e.g. "user" or "kill_switch".
     stop_reason?: string;
+    stop_code?: string;
 };
 
 export type DailyPnlResponse = {
     user_id: string;
+    mode: TradingMode;
     realized_pnl: number;
     unrealized_pnl: number;
     total_pnl: number;
 };
 
+export type DailyPnlDay = {
+    date: string;
+    realized_pnl: number;
+    trades: number;
+};
+
 export type OpenTradeItem = {
     id: number;
     symbol: string;
@@ -48,6 +90,9 @@ export type OpenTradeItem = {
     quantity: number;
     entry_price: number;
     opened_at: string;
+    mode: TradingMode;
+    current_price?: number;
+    unrealized_pnl?: number;
 };
 
 export type ClosedTradeItem = {
@@ -61,6 +106,45 @@ export type ClosedTradeItem = {
     close_reason: string;
     opened_at: string;
     closed_at: string;
+    mode: TradingMode;
+};
+
+export type ClosedTradesSort = "closed_at" | "pnl";
+
+export type ClosedTradesQuery = {
+    cursor?: string;
+    limit?: number;
+    symbol?: string;
+    side?: string;
+    close_reason?: string;
+    from?: string;
+    to?: string;
+    sort?: ClosedTradesSort;
+    order?: "asc" | "desc";
+    // Live trades when omitted.
+    mode?: TradingMode;
+};
+
+export type ClosedTradesPage = {
+    items: ClosedTradeItem[];
+    next_cursor: string | null;
+};
+
+export type CloseTradeFailure = {
+    trade_id: number;
+    detail: string;
+};
+
+export type CloseAllTradesResponse = {
+    closed: ClosedTradeItem[];
+    failed: CloseTradeFailure[];
+};
+
+// The bot is stopped before anything is closed, so it cannot open new trades while positions are flattened.
+export type KillSwitchResponse = CloseAllTradesResponse & {
+    bot: BotStatusResponse;
+    // The summary the backend recorded in the notification feed.
+    notification: NotificationItem;
 };
 
 export type NotificationItem = {
@@ -70,6 +154,34 @@ export type NotificationItem = {
     message: string;
     channel: string;
     created_at: string;
+    read: boolean;
+    trade_id?: number;
+    // Set on bot_stopped notifications, with the same codes as BotStatusResponse.stop_code.
+    stop_code?: string;
+};
+
+export type NotificationsQuery = {
+    cursor?: string;
+    limit?: number;
+    event_type?: string;
+    unread_only?: boolean;
+};
+
+export type NotificationsPage = {
+    items: NotificationItem[];
+    next_cursor: string | null;
+    // Across every event type, so the badge does not depend on the active filter.
+    unread_count: number;
+};
+
+export type MarkNotificationsReadRequest = {
+    user_id: string;
+    // Omitted to mark every notification as read.
+    ids?: number[];
+};
+
+export type MarkNotificationsReadResponse = {
+    unread_count: number;
 };
 
 export type LatencyMetricStats = {
@@ -101,9 +213,30 @@ export type MT5AccountSaveRequest = {
     password: string;
     server: string;
     broker?: string;
+    label?: string;
     timeout_ms?: number;
 };
 
+export type MT5AccountItem = {
+    id: number;
+    label: string;
+    broker?: string;
+    login: string;
+    server: string;
+    is_active: boolean;
+    created_at?: string;
+};
+
+// Per-symbol settings; any field left out falls back to the shared value in TradingConfigRequest.
+export type SymbolOverride = {
+    symbol: string;
+    enabled: boolean;
+    quantity?: number;
+    profit_threshold?: number;
+    loss_threshold?: number;
+    max_trades_per_session?: number;
+};
+
 export type TradingConfigRequest = {
     user_id: string;
     assets: string[];
@@ -112,6 +245,7 @@ export type TradingConfigRequest = {
     quantity: number;
     profit_threshold: number;
     loss_threshold: number;
+    symbol_overrides?: SymbolOverride[];
 };
 
 export type RiskConfigRequest = {
@@ -121,243 +255,553 @@ export type RiskConfigRequest = {
     allocated_capital: number;
 };
 
+// A recurring window, in the schedule's timezone, during which the bot trades.
+export type TradingWindow = {
+    name: string;
+    // HH:MM wall-clock times; the end is after the start on the same day.
+    start: string;
+    end: string;
+    // ISO weekdays, 1 = Monday through 7 = Sunday.
+    days: number[];
+};
+
+export type SessionSchedule = {
+    // IANA timezone name, e.g. "Europe/London".
+    timezone: string;
+    windows: TradingWindow[];
+    // YYYY-MM-DD dates in the schedule's timezone when no window opens, e.g. around news releases.
+    blackout_dates: string[];
+};
+
 export type SessionConfigRequest = {
     user_id: string;
     duration_minutes: number;
+    // Without a schedule the bot only trades when started by hand.
+    schedule?: SessionSchedule;
 };
 
-const DEFAULT_API_BASE_URL = "http://127.0.0.1:8000";
+// Saves the given sections in one transaction: either all of them are applied or none is.
+export type ConfigurationRequest = {
+    user_id: string;
+    trading?: Omit<TradingConfigRequest, "user_id">;
+    risk?: Omit<RiskConfigRequest, "user_id">;
+    session?: Omit<SessionConfigRequest, "user_id">;
+};
 
-function endpoint(baseUrl: string, path: string): string {
-    return `${baseUrl.replace(/\/$/, "")}${path}`;
-}
+// The config endpoints return what was last saved, in the same shape as the save request.
+export type TradingConfigResponse = TradingConfigRequest;
+export type RiskConfigResponse = RiskConfigRequest;
+export type SessionConfigResponse = SessionConfigRequest;
 
-async function parseError(response: Response, fallback: string): Promise<never> {
-    try {
-        const payload = await response.json();
-        if (payload?.detail) {
-            throw new Error(String(payload.detail));
-        }
-    } catch {
-        throw new Error(fallback);
-    }
-    throw new Error(fallback);
-}
+const DEFAULT_API_BASE_URL = getApiClientConfig().baseUrl;
 
-export async function loginUser(email: string, password: string): Promise<AuthSession> {
+export async function loginUser(
+    email: string,
+    password: string,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<AuthSession> {
     if (!email.trim() || !password.trim()) {
-        throw new Error("Email and password are required");
+        throw new ApiError("validation", "Email and password are required", "/auth/login");
     }
-    return {
-        user_id: email.trim().toLowerCase().replace(/[^a-z0-9]/g, "-") || "user",
-        email: email.trim(),
-        access_token: "demo-session-token",
-    };
+    const session = await sendJson("/auth/login", {
+        ...options,
+        label: "Login",
+        method: "POST",
+        baseUrl,
+        body: { email: email.trim(), password },
+        auth: false,
+        decoder: schemas.authSession,
+    });
+    setAuthSession(session);
+    return session;
 }
 
-export async function getHealth(baseUrl: string = DEFAULT_API_BASE_URL): Promise<HealthResponse> {
-    const response = await fetch(endpoint(baseUrl, "/health"));
-    if (!response.ok) {
-        await parseError(response, `Health request failed with status ${response.status}`);
+export async function logoutUser(baseUrl?: string, options: RequestOptions = {}): Promise<void> {
+    if (!getAuthSession()) {
+        return;
+    }
+    try {
+        await sendVoid("/auth/logout", { ...options, label: "Logout", method: "POST", baseUrl, retries: 0 });
+    } finally {
+        setAuthSession(null);
     }
-    return response.json();
 }
 
-export async function getLicenseStatus(
+export function getHealth(baseUrl?: string, options: RequestOptions = {}): Promise<HealthResponse> {
+    return sendJson("/health", { ...options, label: "Health request", baseUrl, decoder: schemas.healthResponse });
+}
+
+export function getLicenseStatus(
     userId: string,
-    baseUrl: string = DEFAULT_API_BASE_URL,
+    baseUrl?: string,
+    options: RequestOptions = {},
 ): Promise<LicenseStatusResponse> {
-    const response = await fetch(endpoint(baseUrl, `/license/status?user_id=${encodeURIComponent(userId)}`));
-    if (!response.ok) {
-        await parseError(response, `License status request failed with status ${response.status}`);
-    }
-    return response.json();
+    return sendJson("/license/status", {
+        ...options,
+        label: "License status request",
+        baseUrl,
+        query: { user_id: userId },
+        decoder: schemas.licenseStatusResponse,
+    });
 }
 
-export async function getDashboardSummary(
+export function getDashboardSummary(
     userId: string,
-    baseUrl: string = DEFAULT_API_BASE_URL,
+    baseUrl?: string,
+    options: RequestOptions = {},
 ): Promise<DashboardSummaryResponse> {
-    const response = await fetch(endpoint(baseUrl, `/summary?user_id=${encodeURIComponent(userId)}`));
-    if (!response.ok) {
-        await parseError(response, `Dashboard summary request failed with status ${response.status}`);
-    }
-    return response.json();
+    return sendJson("/summary", {
+        ...options,
+        label: "Dashboard summary request",
+        baseUrl,
+        query: { user_id: userId },
+        accountScoped: true,
+        decoder: schemas.dashboardSummaryResponse,
+    });
 }
 
-export async function getNotifications(
+export function getNotifications(
     userId: string,
-    baseUrl: string = DEFAULT_API_BASE_URL,
-): Promise<NotificationItem[]> {
-    const response = await fetch(endpoint(baseUrl, `/notifications?user_id=${encodeURIComponent(userId)}&channel=in_app&limit=20`));
-    if (!response.ok) {
-        await parseError(response, `Notifications request failed with status ${response.status}`);
-    }
-    return response.json();
+    query: NotificationsQuery = {},
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<NotificationsPage> {
+    return sendJson("/notifications", {
+        ...options,
+        label: "Notifications request",
+        baseUrl,
+        query: { user_id: userId, channel: "in_app", limit: 20, ...query },
+        decoder: schemas.notificationsPage,
+    });
+}
+
+export function getNotification(
+    userId: string,
+    notificationId: number,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<NotificationItem> {
+    return sendJson(`/notifications/${notificationId}`, {
+        ...options,
+        label: "Notification request",
+        baseUrl,
+        query: { user_id: userId },
+        decoder: schemas.notificationItem,
+    });
+}
+
+export function markNotificationsRead(
+    payload: MarkNotificationsReadRequest,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<MarkNotificationsReadResponse> {
+    return sendJson("/notifications/read", {
+        ...options,
+        label: "Marking notifications read",
+        method: "POST",
+        baseUrl,
+        body: payload,
+        decoder: schemas.markNotificationsReadResponse,
+    });
 }
 
-export async function getBotStatus(
+export function dismissNotification(
     userId: string,
-    baseUrl: string = DEFAULT_API_BASE_URL,
+    notificationId: number,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<void> {
+    return sendVoid(`/notifications/${notificationId}`, {
+        ...options,
+        label: "Dismissing notification",
+        method: "DELETE",
+        baseUrl,
+        query: { user_id: userId },
+    });
+}
+
+export function getBotStatus(
+    userId: string,
+    baseUrl?: string,
+    options: RequestOptions = {},
 ): Promise<BotStatusResponse> {
-    const response = await fetch(endpoint(baseUrl, `/bot/status?user_id=${encodeURIComponent(userId)}`));
-    if (!response.ok) {
-        await parseError(response, `Bot status request failed with status ${response.status}`);
-    }
-    return response.json();
+    return sendJson("/bot/status", {
+        ...options,
+        label: "Bot status request",
+        baseUrl,
+        query: { user_id: userId },
+        decoder: schemas.botStatusResponse,
+    });
 }
 
-export async function getDailyPnl(
+export function getDailyPnl(
     userId: string,
-    baseUrl: string = DEFAULT_API_BASE_URL,
+    mode: TradingMode = "live",
+    baseUrl?: string,
+    options: RequestOptions = {},
 ): Promise<DailyPnlResponse> {
-    const response = await fetch(endpoint(baseUrl, `/pnl/daily?user_id=${encodeURIComponent(userId)}`));
-    if (!response.ok) {
-        await parseError(response, `Daily PnL request failed with status ${response.status}`);
-    }
-    return response.json();
+    return sendJson("/pnl/daily", {
+        ...options,
+        label: "Daily PnL request",
+        baseUrl,
+        query: { user_id: userId, mode },
+        accountScoped: true,
+        decoder: schemas.dailyPnlResponse,
+    });
 }
 
-export async function getOpenTrades(
+export function getDailyPnlRange(
     userId: string,
-    baseUrl: string = DEFAULT_API_BASE_URL,
+    from: string,
+    to: string,
+    mode: TradingMode = "live",
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<DailyPnlDay[]> {
+    return sendJson("/pnl/daily/range", {
+        ...options,
+        label: "Daily PnL history request",
+        baseUrl,
+        query: { user_id: userId, from, to, mode },
+        accountScoped: true,
+        decoder: array(schemas.dailyPnlDay),
+    });
+}
+
+export function getOpenTrades(
+    userId: string,
+    baseUrl?: string,
+    options: RequestOptions = {},
 ): Promise<OpenTradeItem[]> {
-    const response = await fetch(endpoint(baseUrl, `/trades/open?user_id=${encodeURIComponent(userId)}`));
-    if (!response.ok) {
-        await parseError(response, `Open trades request failed with status ${response.status}`);
-    }
-    return response.json();
+    return sendJson("/trades/open", {
+        ...options,
+        label: "Open trades request",
+        baseUrl,
+        query: { user_id: userId },
+        accountScoped: true,
+        decoder: array(schemas.openTradeItem),
+    });
 }
 
-export async function getClosedTrades(
+export function getClosedTrades(
     userId: string,
-    baseUrl: string = DEFAULT_API_BASE_URL,
+    baseUrl?: string,
     limit: number = 20,
+    options: RequestOptions = {},
 ): Promise<ClosedTradeItem[]> {
-    const response = await fetch(
-        endpoint(baseUrl, `/trades/closed?user_id=${encodeURIComponent(userId)}&limit=${limit}`),
-    );
-    if (!response.ok) {
-        await parseError(response, `Closed trades request failed with status ${response.status}`);
-    }
-    return response.json();
+    return sendJson("/trades/closed", {
+        ...options,
+        label: "Closed trades request",
+        baseUrl,
+        query: { user_id: userId, limit },
+        accountScoped: true,
+        decoder: array(schemas.closedTradeItem),
+    });
 }
 
-export async function getLatencyMetrics(baseUrl: string = DEFAULT_API_BASE_URL): Promise<LatencyMetricsResponse> {
-    const response = await fetch(endpoint(baseUrl, "/metrics/latency"));
-    if (!response.ok) {
-        await parseError(response, `Latency metrics request failed with status ${response.status}`);
-    }
-    return response.json();
+export function getClosedTradesPage(
+    userId: string,
+    query: ClosedTradesQuery = {},
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<ClosedTradesPage> {
+    return sendJson("/trades/history", {
+        ...options,
+        label: "Trade history request",
+        baseUrl,
+        query: { user_id: userId, ...query },
+        accountScoped: true,
+        decoder: schemas.closedTradesPage,
+    });
 }
 
-export async function connectMT5(
+const ALL_CLOSED_TRADES_PAGE_SIZE = 100;
+
+// Walks every history page for the query, for callers that need all matching trades rather than one page.
+export async function getAllClosedTrades(
+    userId: string,
+    query: Omit<ClosedTradesQuery, "cursor" | "limit"> = {},
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<ClosedTradeItem[]> {
+    const trades: ClosedTradeItem[] = [];
+    let cursor: string | undefined;
+    do {
+        const page = await getClosedTradesPage(
+            userId,
+            { ...query, cursor, limit: ALL_CLOSED_TRADES_PAGE_SIZE },
+            baseUrl,
+            options,
+        );
+        trades.push(...page.items);
+        // A backend that hands back the same cursor would otherwise keep this loop going forever.
+        if (page.next_cursor !== null && page.next_cursor === cursor) {
+            throw new Error("The trade history kept returning the same page");
+        }
+        cursor = page.next_cursor ?? undefined;
+    } while (cursor !== undefined);
+    return trades;
+}
+
+export function getClosedTrade(
+    userId: string,
+    tradeId: number,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<ClosedTradeItem> {
+    return sendJson(`/trades/closed/${tradeId}`, {
+        ...options,
+        label: "Trade request",
+        baseUrl,
+        query: { user_id: userId },
+        accountScoped: true,
+        decoder: schemas.closedTradeItem,
+    });
+}
+
+export function closeTrade(
+    userId: string,
+    tradeId: number,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<ClosedTradeItem> {
+    return sendJson(`/trades/${tradeId}/close`, {
+        ...options,
+        label: "Closing trade",
+        method: "POST",
+        baseUrl,
+        query: { user_id: userId },
+        accountScoped: true,
+        decoder: schemas.closedTradeItem,
+    });
+}
+
+export function closeAllTrades(
+    userId: string,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<CloseAllTradesResponse> {
+    return sendJson("/trades/close-all", {
+        ...options,
+        label: "Closing all trades",
+        method: "POST",
+        baseUrl,
+        query: { user_id: userId },
+        accountScoped: true,
+        decoder: schemas.closeAllTradesResponse,
+    });
+}
+
+export function getLatencyMetrics(baseUrl?: string, options: RequestOptions = {}): Promise<LatencyMetricsResponse> {
+    return sendJson("/metrics/latency", {
+        ...options,
+        label: "Latency metrics request",
+        baseUrl,
+        decoder: schemas.latencyMetricsResponse,
+    });
+}
+
+export function connectMT5(
     payload: MT5ConnectTestRequest,
-    baseUrl: string = DEFAULT_API_BASE_URL,
+    baseUrl?: string,
+    options: RequestOptions = {},
 ): Promise<MT5ConnectTestResponse> {
-    const response = await fetch(endpoint(baseUrl, "/mt5/connect-test"), {
+    return sendJson("/mt5/connect-test", {
+        ...options,
+        label: "MT5 connect test",
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        baseUrl,
+        body: payload,
+        sendsSecrets: true,
+        decoder: schemas.mt5ConnectTestResponse,
     });
-    if (!response.ok) {
-        await parseError(response, `MT5 connect test failed with status ${response.status}`);
-    }
-    return response.json();
 }
 
-export async function saveMT5Account(
+export function saveMT5Account(
     payload: MT5AccountSaveRequest,
-    baseUrl: string = DEFAULT_API_BASE_URL,
+    baseUrl?: string,
+    options: RequestOptions = {},
 ): Promise<void> {
-    const response = await fetch(endpoint(baseUrl, "/mt5/account"), {
+    return sendVoid("/mt5/account", {
+        ...options,
+        label: "Saving MT5 account",
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        baseUrl,
+        body: payload,
+        sendsSecrets: true,
     });
-    if (!response.ok) {
-        await parseError(response, `Saving MT5 account failed with status ${response.status}`);
-    }
 }
 
-export async function saveTradingConfig(
-    payload: TradingConfigRequest,
-    baseUrl: string = DEFAULT_API_BASE_URL,
-): Promise<void> {
-    const response = await fetch(endpoint(baseUrl, "/trading/config"), {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+export function getMT5Accounts(
+    userId: string,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<MT5AccountItem[]> {
+    return sendJson("/mt5/accounts", {
+        ...options,
+        label: "MT5 accounts request",
+        baseUrl,
+        query: { user_id: userId },
+        decoder: array(schemas.mt5AccountItem),
+    });
+}
+
+export function renameMT5Account(
+    userId: string,
+    accountId: number,
+    label: string,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<MT5AccountItem> {
+    return sendJson(`/mt5/accounts/${accountId}`, {
+        ...options,
+        label: "Renaming MT5 account",
+        method: "PATCH",
+        baseUrl,
+        query: { user_id: userId },
+        body: { label: label.trim() },
+        decoder: schemas.mt5AccountItem,
     });
-    if (!response.ok) {
-        await parseError(response, `Saving trading settings failed with status ${response.status}`);
-    }
 }
 
-export async function saveRiskConfig(
-    payload: RiskConfigRequest,
-    baseUrl: string = DEFAULT_API_BASE_URL,
+export function deleteMT5Account(
+    userId: string,
+    accountId: number,
+    baseUrl?: string,
+    options: RequestOptions = {},
 ): Promise<void> {
-    const response = await fetch(endpoint(baseUrl, "/risk/config"), {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+    return sendVoid(`/mt5/accounts/${accountId}`, {
+        ...options,
+        label: "Deleting MT5 account",
+        method: "DELETE",
+        baseUrl,
+        query: { user_id: userId },
     });
-    if (!response.ok) {
-        await parseError(response, `Saving risk settings failed with status ${response.status}`);
-    }
 }
 
-export async function saveSessionConfig(
-    payload: SessionConfigRequest,
-    baseUrl: string = DEFAULT_API_BASE_URL,
+export function activateMT5Account(
+    userId: string,
+    accountId: number,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<MT5AccountItem> {
+    return sendJson(`/mt5/accounts/${accountId}/activate`, {
+        ...options,
+        label: "Activating MT5 account",
+        method: "POST",
+        baseUrl,
+        query: { user_id: userId },
+        decoder: schemas.mt5AccountItem,
+    });
+}
+
+export function saveConfiguration(
+    payload: ConfigurationRequest,
+    baseUrl?: string,
+    options: RequestOptions = {},
 ): Promise<void> {
-    const response = await fetch(endpoint(baseUrl, "/session/config"), {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+    return sendVoid("/config", { ...options, label: "Saving configuration", method: "PUT", baseUrl, body: payload });
+}
+
+export function getTradingConfig(
+    userId: string,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<TradingConfigResponse> {
+    return sendJson("/trading/config", {
+        ...options,
+        label: "Trading settings request",
+        baseUrl,
+        query: { user_id: userId },
+        decoder: schemas.tradingConfigResponse,
+    });
+}
+
+export function getRiskConfig(userId: string, baseUrl?: string, options: RequestOptions = {}): Promise<RiskConfigResponse> {
+    return sendJson("/risk/config", {
+        ...options,
+        label: "Risk settings request",
+        baseUrl,
+        query: { user_id: userId },
+        decoder: schemas.riskConfigResponse,
+    });
+}
+
+export function getSessionConfig(
+    userId: string,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<SessionConfigResponse> {
+    return sendJson("/session/config", {
+        ...options,
+        label: "Session settings request",
+        baseUrl,
+        query: { user_id: userId },
+        decoder: schemas.sessionConfigResponse,
     });
-    if (!response.ok) {
-        await parseError(response, `Saving session settings failed with status ${response.status}`);
-    }
 }
 
 export async function activateLicense(
     userId: string,
     licenseKey: string,
-    baseUrl: string = DEFAULT_API_BASE_URL,
+    baseUrl?: string,
+    options: RequestOptions = {},
 ): Promise<void> {
     if (!licenseKey.trim()) {
         return;
     }
-    const response = await fetch(endpoint(baseUrl, "/license/activate"), {
+    await sendVoid("/license/activate", {
+        ...options,
+        label: "License activation",
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ user_id: userId, license_key: licenseKey.trim() }),
+        baseUrl,
+        body: { user_id: userId, license_key: licenseKey.trim() },
     });
-    if (!response.ok) {
-        await parseError(response, `License activation failed with status ${response.status}`);
-    }
 }
 
-export async function startBot(userId: string, baseUrl: string = DEFAULT_API_BASE_URL): Promise<BotStatusResponse> {
-    const response = await fetch(endpoint(baseUrl, `/bot/start?user_id=${encodeURIComponent(userId)}`), {
+export function startBot(
+    userId: string,
+    mode: TradingMode,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<BotStatusResponse> {
+    return sendJson("/bot/start", {
+        ...options,
+        label: mode === "paper" ? "Start paper trading" : "Start bot",
         method: "POST",
+        baseUrl,
+        query: { user_id: userId },
+        body: { mode },
+        decoder: schemas.botStatusResponse,
     });
-    if (!response.ok) {
-        await parseError(response, `Start bot failed with status ${response.status}`);
-    }
-    return response.json();
 }
 
-export async function stopBot(userId: string, baseUrl: string = DEFAULT_API_BASE_URL): Promise<BotStatusResponse> {
-    const response = await fetch(endpoint(baseUrl, `/bot/stop?user_id=${encodeURIComponent(userId)}`), {
+export function stopBot(userId: string, baseUrl?: string, options: RequestOptions = {}): Promise<BotStatusResponse> {
+    return sendJson("/bot/stop", {
+        ...options,
+        label: "Stop bot",
         method: "POST",
+        baseUrl,
+        query: { user_id: userId },
+        decoder: schemas.botStatusResponse,
+    });
+}
+
+export function triggerKillSwitch(
+    userId: string,
+    baseUrl?: string,
+    options: RequestOptions = {},
+): Promise<KillSwitchResponse> {
+    return sendJson("/bot/kill-switch", {
+        ...options,
+        label: "Kill switch",
+        method: "POST",
+        baseUrl,
+        query: { user_id: userId },
+        accountScoped: true,
+        decoder: schemas.killSwitchResponse,
     });
-    if (!response.ok) {
-        await parseError(response, `Stop bot failed with status ${response.status}`);
-    }
-    return response.json();
 }
 
 export const ApiDefaults = {
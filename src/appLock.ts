@@ -0,0 +1,101 @@
+import * as LocalAuthentication from "expo-local-authentication";
+import * as SecureStore from "expo-secure-store";
+
+export type AppLockSettings = {
+    enabled: boolean;
+    biometrics: boolean;
+};
+
+export type PinCheck = { ok: true } | { ok: false; message: string };
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = { enabled: false, biometrics: false };
+
+// Both live in the keychain / keystore rather than AsyncStorage, so the lock cannot be switched off or read
+// by editing the app's plain storage.
+const PIN_KEY = "apex-scalper.app-lock.pin";
+const SETTINGS_KEY = "apex-scalper.app-lock.settings";
+const PIN_PATTERN = /^\d{4,8}$/;
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 30_000;
+
+// Kept in memory, so this only slows guessing down; the backend still guards every request with the session.
+let failedAttempts = 0;
+let lockedOutUntil = 0;
+
+export function isValidPin(pin: string): boolean {
+    return PIN_PATTERN.test(pin);
+}
+
+export async function loadAppLockSettings(): Promise<AppLockSettings> {
+    try {
+        const raw = await SecureStore.getItemAsync(SETTINGS_KEY);
+        return raw ? { ...DEFAULT_APP_LOCK_SETTINGS, ...JSON.parse(raw) } : DEFAULT_APP_LOCK_SETTINGS;
+    } catch {
+        return DEFAULT_APP_LOCK_SETTINGS;
+    }
+}
+
+// Saves the settings, and the PIN when one is given. Enabling the lock without a stored PIN is refused.
+export async function saveAppLock(settings: AppLockSettings, pin?: string): Promise<void> {
+    if (pin !== undefined) {
+        if (!isValidPin(pin)) {
+            throw new Error("The PIN must be 4 to 8 digits");
+        }
+        await SecureStore.setItemAsync(PIN_KEY, pin);
+    } else if (settings.enabled && !(await SecureStore.getItemAsync(PIN_KEY))) {
+        throw new Error("Choose a PIN before turning the app lock on");
+    }
+    await SecureStore.setItemAsync(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export async function clearAppLock(): Promise<void> {
+    failedAttempts = 0;
+    lockedOutUntil = 0;
+    await Promise.all([SecureStore.deleteItemAsync(PIN_KEY), SecureStore.deleteItemAsync(SETTINGS_KEY)]);
+}
+
+export async function verifyPin(pin: string, now: number = Date.now()): Promise<PinCheck> {
+    if (now < lockedOutUntil) {
+        return { ok: false, message: `Too many attempts. Try again in ${Math.ceil((lockedOutUntil - now) / 1000)}s` };
+    }
+    if ((await SecureStore.getItemAsync(PIN_KEY)) === pin) {
+        failedAttempts = 0;
+        return { ok: true };
+    }
+    failedAttempts += 1;
+    if (failedAttempts >= MAX_PIN_ATTEMPTS) {
+        failedAttempts = 0;
+        lockedOutUntil = now + PIN_LOCKOUT_MS;
+        return { ok: false, message: `Too many attempts. Try again in ${PIN_LOCKOUT_MS / 1000}s` };
+    }
+    return { ok: false, message: `Wrong PIN, ${MAX_PIN_ATTEMPTS - failedAttempts} attempt(s) left` };
+}
+
+export async function biometricsAvailable(): Promise<boolean> {
+    try {
+        return (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+    } catch {
+        return false;
+    }
+}
+
+// Fingerprint or face only; the app PIN is the fallback, not the device passcode.
+export async function authenticateWithBiometrics(promptMessage: string): Promise<boolean> {
+    const result = await LocalAuthentication.authenticateAsync({
+        promptMessage,
+        cancelLabel: "Use PIN",
+        disableDeviceFallback: true,
+    });
+    return result.success;
+}
+
+// Used for sensitive actions while the app lock is off. Returns null when the device has no screen lock,
+// as there is then nothing to check the user against.
+export async function authenticateWithDevice(promptMessage: string): Promise<boolean | null> {
+    const level = await LocalAuthentication.getEnrolledLevelAsync().catch(() => LocalAuthentication.SecurityLevel.NONE);
+    if (level === LocalAuthentication.SecurityLevel.NONE) {
+        return null;
+    }
+    const result = await LocalAuthentication.authenticateAsync({ promptMessage });
+    return result.success;
+}
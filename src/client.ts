@@ -0,0 +1,377 @@
+import type { AuthSession } from "./api";
+import { DecodeError, Decoder } from "./decode";
+import { authSession } from "./schemas";
+import { urlSecurity } from "./urlSecurity";
+
+export type ApiErrorKind =
+    | "network"
+    | "timeout"
+    | "aborted"
+    | "auth"
+    | "validation"
+    | "not_found"
+    | "server"
+    | "http"
+    | "contract";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export type RequestOptions = {
+    signal?: AbortSignal;
+    timeoutMs?: number;
+    retries?: number;
+};
+
+export type ApiRequest = RequestOptions & {
+    label: string;
+    method?: HttpMethod;
+    baseUrl?: string;
+    query?: Record<string, QueryValue>;
+    body?: unknown;
+    auth?: boolean;
+    // Adds the active MT5 account as `account_id` so summary, trade and PnL data match the selected account.
+    accountScoped?: boolean;
+    // The body holds credentials, so the request is refused unless it goes over HTTPS or stays on the device or LAN.
+    sendsSecrets?: boolean;
+};
+
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+export type ApiClientConfig = {
+    baseUrl: string;
+    timeoutMs: number;
+    retries: number;
+    retryDelayMs: number;
+    // Swapped out for the in-app mock backend and in tests; defaults to the global fetch.
+    transport: Transport;
+};
+
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly status: number | null;
+    readonly detail: string | null;
+    readonly endpoint: string;
+
+    constructor(kind: ApiErrorKind, message: string, endpoint: string, status: number | null = null, detail: string | null = null) {
+        super(message);
+        this.name = "ApiError";
+        this.kind = kind;
+        this.status = status;
+        this.detail = detail;
+        this.endpoint = endpoint;
+    }
+}
+
+// The backend answered, but the payload does not match the type the app expects.
+export class ApiContractError extends ApiError {
+    readonly field: string;
+
+    constructor(label: string, endpoint: string, field: string, reason: string) {
+        super("contract", `${label} returned an unexpected response (${reason})`, endpoint);
+        this.name = "ApiContractError";
+        this.field = field;
+    }
+}
+
+export function isApiError(value: unknown): value is ApiError {
+    return value instanceof ApiError;
+}
+
+const config: ApiClientConfig = {
+    baseUrl: "http://127.0.0.1:8000",
+    timeoutMs: 10_000,
+    retries: 2,
+    retryDelayMs: 400,
+    transport: (url, init) => fetch(url, init),
+};
+
+let currentSession: AuthSession | null = null;
+let unauthorizedHandler: (() => void) | null = null;
+let sessionChangeHandler: ((session: AuthSession | null) => void) | null = null;
+let pendingRefresh: Promise<AuthSession> | null = null;
+let activeAccountId: number | null = null;
+
+export function configureApiClient(overrides: Partial<ApiClientConfig>): void {
+    Object.assign(config, overrides);
+}
+
+export function getApiClientConfig(): Readonly<ApiClientConfig> {
+    return config;
+}
+
+export function setAuthSession(session: AuthSession | null): void {
+    currentSession = session;
+    sessionChangeHandler?.(session);
+}
+
+export function getAuthSession(): AuthSession | null {
+    return currentSession;
+}
+
+export function onUnauthorized(handler: () => void): () => void {
+    unauthorizedHandler = handler;
+    return () => {
+        if (unauthorizedHandler === handler) {
+            unauthorizedHandler = null;
+        }
+    };
+}
+
+export function setActiveAccountId(accountId: number | null): void {
+    activeAccountId = accountId;
+}
+
+export function getActiveAccountId(): number | null {
+    return activeAccountId;
+}
+
+export function onSessionChange(handler: (session: AuthSession | null) => void): () => void {
+    sessionChangeHandler = handler;
+    return () => {
+        if (sessionChangeHandler === handler) {
+            sessionChangeHandler = null;
+        }
+    };
+}
+
+function buildUrl(baseUrl: string, path: string, query?: Record<string, QueryValue>): string {
+    const url = `${baseUrl.replace(/\/$/, "")}${path}`;
+    if (!query) {
+        return url;
+    }
+    const params = Object.entries(query)
+        .filter(([, value]) => value !== undefined && value !== null && value !== "")
+        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+    return params.length ? `${url}?${params.join("&")}` : url;
+}
+
+function kindForStatus(status: number): ApiErrorKind {
+    if (status === 401 || status === 403) {
+        return "auth";
+    }
+    if (status === 404) {
+        return "not_found";
+    }
+    if (status === 400 || status === 409 || status === 422) {
+        return "validation";
+    }
+    if (status >= 500) {
+        return "server";
+    }
+    return "http";
+}
+
+// FastAPI sends `detail` either as a string or as a list of `{ loc, msg }` validation entries.
+function formatDetail(detail: unknown): string | null {
+    if (typeof detail === "string") {
+        return detail;
+    }
+    if (Array.isArray(detail)) {
+        const messages = detail
+            .map((entry) => {
+                if (entry && typeof entry === "object" && "msg" in entry) {
+                    const loc = Array.isArray(entry.loc) ? entry.loc.filter((part: unknown) => part !== "body").join(".") : "";
+                    return loc ? `${loc}: ${entry.msg}` : String(entry.msg);
+                }
+                return String(entry);
+            })
+            .filter(Boolean);
+        return messages.length ? messages.join("; ") : null;
+    }
+    if (detail !== undefined && detail !== null) {
+        return String(detail);
+    }
+    return null;
+}
+
+async function errorFromResponse(response: Response, label: string, endpoint: string): Promise<ApiError> {
+    let detail: string | null = null;
+    try {
+        const payload = await response.json();
+        detail = formatDetail(payload?.detail);
+    } catch {
+        detail = null;
+    }
+    const message = detail ?? `${label} failed with status ${response.status}`;
+    return new ApiError(kindForStatus(response.status), message, endpoint, response.status, detail);
+}
+
+function isRetryable(error: ApiError): boolean {
+    if (error.kind === "network" || error.kind === "timeout") {
+        return true;
+    }
+    return error.status === 429 || error.status === 502 || error.status === 503 || error.status === 504;
+}
+
+// Resolves early when the signal aborts; callers must check the signal afterwards.
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+function throwIfAborted(url: string, request: ApiRequest): void {
+    if (request.signal?.aborted) {
+        throw new ApiError("aborted", `${request.label} was cancelled`, url);
+    }
+}
+
+async function sendOnce(url: string, init: RequestInit, request: ApiRequest): Promise<Response> {
+    // An abort listener added to an already aborted signal never fires, so this is checked up front.
+    throwIfAborted(url, request);
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, request.timeoutMs ?? config.timeoutMs);
+    const forwardAbort = () => controller.abort();
+    request.signal?.addEventListener("abort", forwardAbort);
+
+    try {
+        return await config.transport(url, { ...init, signal: controller.signal });
+    } catch (error) {
+        if (request.signal?.aborted) {
+            throw new ApiError("aborted", `${request.label} was cancelled`, url);
+        }
+        if (timedOut) {
+            throw new ApiError("timeout", `${request.label} timed out`, url);
+        }
+        const reason = error instanceof Error ? error.message : "Network request failed";
+        throw new ApiError("network", `${request.label} could not reach the server (${reason})`, url);
+    } finally {
+        clearTimeout(timer);
+        request.signal?.removeEventListener("abort", forwardAbort);
+    }
+}
+
+function buildInit(request: ApiRequest): RequestInit {
+    const headers: Record<string, string> = {};
+    if (request.body !== undefined) {
+        headers["Content-Type"] = "application/json";
+    }
+    if (request.auth !== false && currentSession) {
+        headers.Authorization = `Bearer ${currentSession.access_token}`;
+    }
+    return {
+        method: request.method ?? "GET",
+        headers,
+        body: request.body === undefined ? undefined : JSON.stringify(request.body),
+    };
+}
+
+// Concurrent 401s share one refresh call so a burst of parallel GETs does not rotate the token several times.
+export function refreshAccessToken(baseUrl: string = config.baseUrl): Promise<AuthSession> {
+    if (!currentSession) {
+        return Promise.reject(new ApiError("auth", "No active session to refresh", "/auth/refresh", 401));
+    }
+    if (!pendingRefresh) {
+        pendingRefresh = sendJson("/auth/refresh", {
+            label: "Session refresh",
+            method: "POST",
+            baseUrl,
+            body: { refresh_token: currentSession.refresh_token },
+            auth: false,
+            retries: 0,
+            decoder: authSession,
+        })
+            .then((session) => {
+                setAuthSession(session);
+                return session;
+            })
+            .finally(() => {
+                pendingRefresh = null;
+            });
+    }
+    return pendingRefresh;
+}
+
+async function sendWithRetries(path: string, request: ApiRequest): Promise<Response> {
+    const query =
+        request.accountScoped && activeAccountId !== null ? { ...request.query, account_id: activeAccountId } : request.query;
+    const baseUrl = request.baseUrl ?? config.baseUrl;
+    if (request.sendsSecrets && urlSecurity(baseUrl) === "insecure") {
+        throw new ApiError(
+            "validation",
+            `${request.label} was not sent: ${baseUrl} is not HTTPS, so the password would travel unencrypted`,
+            path,
+        );
+    }
+    const url = buildUrl(baseUrl, path, query);
+    const method = request.method ?? "GET";
+    const maxRetries = method === "GET" ? request.retries ?? config.retries : 0;
+
+    for (let attempt = 0; ; attempt += 1) {
+        try {
+            const response = await sendOnce(url, buildInit(request), request);
+            if (response.ok) {
+                return response;
+            }
+            const error = await errorFromResponse(response, request.label, url);
+            if (attempt < maxRetries && isRetryable(error)) {
+                await delay(config.retryDelayMs * 2 ** attempt, request.signal);
+                throwIfAborted(url, request);
+                continue;
+            }
+            throw error;
+        } catch (error) {
+            if (!(error instanceof ApiError) || attempt >= maxRetries || !isRetryable(error) || request.signal?.aborted) {
+                throw error;
+            }
+            await delay(config.retryDelayMs * 2 ** attempt, request.signal);
+            throwIfAborted(url, request);
+        }
+    }
+}
+
+async function send(path: string, request: ApiRequest): Promise<Response> {
+    try {
+        return await sendWithRetries(path, request);
+    } catch (error) {
+        if (!(error instanceof ApiError) || error.status !== 401 || request.auth === false || !currentSession) {
+            throw error;
+        }
+        try {
+            await refreshAccessToken(request.baseUrl);
+            return await sendWithRetries(path, request);
+        } catch (retryError) {
+            if (retryError instanceof ApiError && retryError.status === 401) {
+                setAuthSession(null);
+                unauthorizedHandler?.();
+            }
+            throw retryError instanceof ApiError ? retryError : error;
+        }
+    }
+}
+
+export async function sendJson<T>(path: string, request: ApiRequest & { decoder: Decoder<T> }): Promise<T> {
+    const response = await send(path, request);
+    let payload: unknown;
+    try {
+        payload = await response.json();
+    } catch {
+        throw new ApiContractError(request.label, response.url || path, "", "body is not valid JSON");
+    }
+    try {
+        return request.decoder(payload, "");
+    } catch (error) {
+        if (error instanceof DecodeError) {
+            throw new ApiContractError(request.label, response.url || path, error.path, error.message);
+        }
+        throw error;
+    }
+}
+
+export async function sendVoid(path: string, request: ApiRequest): Promise<void> {
+    await send(path, request);
+}
@@ -0,0 +1,306 @@
+import { Pressable, Text, TextInput, View } from "react-native";
+
+import type { TradingWindow } from "../api";
+import type { ConfigForm } from "../configForm";
+import { WEEKDAY_LABELS } from "../schedule";
+import { SymbolOverrideDraft, emptyOverrideDraft, parseSymbols } from "../symbolConfig";
+import { styles } from "../theme";
+import { FieldErrors, OverrideField, overrideFieldKey, windowFieldKey } from "../validation";
+import { OptionGroup } from "./OptionGroup";
+
+type ConfigFieldsProps = {
+  form: ConfigForm;
+  onChange: (patch: Partial<ConfigForm>) => void;
+  // Pass an empty object to hide errors, e.g. before the first save attempt.
+  errors: FieldErrors;
+};
+
+const NEW_WINDOW: TradingWindow = { name: "", start: "08:00", end: "11:00", days: [1, 2, 3, 4, 5] };
+
+// Inputs for the trading, risk and session settings, shared by the setup and settings screens.
+export function ConfigFields({ form, onChange, errors }: ConfigFieldsProps) {
+  function renderError(key: string) {
+    const message = errors[key];
+    return message ? <Text style={styles.fieldErrorText}>{message}</Text> : null;
+  }
+
+  function updateSymbolOverride(symbol: string, patch: Partial<SymbolOverrideDraft>): void {
+    onChange({
+      symbolOverrides: {
+        ...form.symbolOverrides,
+        [symbol]: { ...(form.symbolOverrides[symbol] ?? emptyOverrideDraft), ...patch },
+      },
+    });
+  }
+
+  function updateWindow(index: number, patch: Partial<TradingWindow>): void {
+    onChange({
+      tradingWindows: form.tradingWindows.map((window, position) => (position === index ? { ...window, ...patch } : window)),
+    });
+  }
+
+  function toggleDay(index: number, day: number): void {
+    const days = form.tradingWindows[index].days;
+    updateWindow(index, { days: days.includes(day) ? days.filter((item) => item !== day) : [...days, day] });
+  }
+
+  return (
+    <>
+      <Text style={styles.inputLabel}>Symbols (comma separated)</Text>
+      <TextInput
+        style={[styles.input, errors.symbols && styles.inputInvalid]}
+        value={form.symbols}
+        onChangeText={(value) => onChange({ symbols: value })}
+        placeholderTextColor="#6B7280"
+      />
+      {renderError("symbols")}
+
+      <Text style={styles.inputLabel}>Timeframe</Text>
+      <View style={styles.rowButtons}>
+        <Pressable
+          style={[styles.optionButton, form.timeframe === "M1" && styles.optionButtonActive]}
+          onPress={() => onChange({ timeframe: "M1" })}
+        >
+          <Text style={[styles.optionText, form.timeframe === "M1" && styles.optionTextActive]}>M1</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.optionButton, form.timeframe === "M5" && styles.optionButtonActive]}
+          onPress={() => onChange({ timeframe: "M5" })}
+        >
+          <Text style={[styles.optionText, form.timeframe === "M5" && styles.optionTextActive]}>M5</Text>
+        </Pressable>
+      </View>
+
+      <Text style={styles.inputLabel}>Quantity (lots)</Text>
+      <TextInput
+        style={[styles.input, errors.quantity && styles.inputInvalid]}
+        value={form.quantity}
+        onChangeText={(value) => onChange({ quantity: value })}
+        keyboardType="decimal-pad"
+        placeholderTextColor="#6B7280"
+      />
+      {renderError("quantity")}
+
+      <Text style={styles.inputLabel}>Max trades/session</Text>
+      <TextInput
+        style={[styles.input, errors.maxTrades && styles.inputInvalid]}
+        value={form.maxTrades}
+        onChangeText={(value) => onChange({ maxTrades: value })}
+        keyboardType="numeric"
+        placeholderTextColor="#6B7280"
+      />
+      {renderError("maxTrades")}
+
+      <Text style={styles.inputLabel}>Daily profit target</Text>
+      <TextInput
+        style={[styles.input, errors.profitTarget && styles.inputInvalid]}
+        value={form.profitTarget}
+        onChangeText={(value) => onChange({ profitTarget: value })}
+        keyboardType="decimal-pad"
+        placeholderTextColor="#6B7280"
+      />
+      {renderError("profitTarget")}
+
+      <Text style={styles.inputLabel}>Daily loss limit</Text>
+      <TextInput
+        style={[styles.input, errors.lossLimit && styles.inputInvalid]}
+        value={form.lossLimit}
+        onChangeText={(value) => onChange({ lossLimit: value })}
+        keyboardType="decimal-pad"
+        placeholderTextColor="#6B7280"
+      />
+      {renderError("lossLimit")}
+
+      <Text style={styles.inputLabel}>Allocated capital</Text>
+      <TextInput
+        style={[styles.input, errors.allocatedCapital && styles.inputInvalid]}
+        value={form.allocatedCapital}
+        onChangeText={(value) => onChange({ allocatedCapital: value })}
+        keyboardType="decimal-pad"
+        placeholderTextColor="#6B7280"
+      />
+      {renderError("allocatedCapital")}
+
+      <Text style={styles.inputLabel}>Session duration (minutes)</Text>
+      <TextInput
+        style={[styles.input, errors.sessionMinutes && styles.inputInvalid]}
+        value={form.sessionMinutes}
+        onChangeText={(value) => onChange({ sessionMinutes: value })}
+        keyboardType="numeric"
+        placeholderTextColor="#6B7280"
+      />
+      {renderError("sessionMinutes")}
+
+      <Text style={styles.panelTitle}>Trading schedule</Text>
+      <Text style={styles.panelLine}>
+        The bot starts and stops itself inside these windows. Without any it only runs when started by hand.
+      </Text>
+      {form.tradingWindows.length ? (
+        <>
+          <Text style={styles.inputLabel}>Timezone</Text>
+          <TextInput
+            style={[styles.input, errors.timezone && styles.inputInvalid]}
+            value={form.timezone}
+            onChangeText={(value) => onChange({ timezone: value })}
+            placeholder="Europe/London"
+            autoCapitalize="none"
+            autoCorrect={false}
+            placeholderTextColor="#6B7280"
+          />
+          {renderError("timezone")}
+        </>
+      ) : null}
+      {form.tradingWindows.map((window, index) => (
+        <View key={index} style={styles.positionCard}>
+          <TextInput
+            style={styles.input}
+            value={window.name}
+            onChangeText={(value) => updateWindow(index, { name: value })}
+            placeholder={`Window ${index + 1}`}
+            placeholderTextColor="#6B7280"
+          />
+          <View style={styles.rowButtons}>
+            <View style={styles.flexColumn}>
+              <Text style={styles.inputLabel}>Start</Text>
+              <TextInput
+                style={[styles.input, errors[windowFieldKey(index, "start")] && styles.inputInvalid]}
+                value={window.start}
+                onChangeText={(value) => updateWindow(index, { start: value })}
+                placeholder="HH:MM"
+                placeholderTextColor="#6B7280"
+              />
+              {renderError(windowFieldKey(index, "start"))}
+            </View>
+            <View style={styles.flexColumn}>
+              <Text style={styles.inputLabel}>End</Text>
+              <TextInput
+                style={[styles.input, errors[windowFieldKey(index, "end")] && styles.inputInvalid]}
+                value={window.end}
+                onChangeText={(value) => updateWindow(index, { end: value })}
+                placeholder="HH:MM"
+                placeholderTextColor="#6B7280"
+              />
+              {renderError(windowFieldKey(index, "end"))}
+            </View>
+          </View>
+          <View style={styles.rowButtons}>
+            {WEEKDAY_LABELS.map((label, position) => {
+              const active = window.days.includes(position + 1);
+              return (
+                <Pressable
+                  key={label}
+                  style={[styles.optionButton, active && styles.optionButtonActive]}
+                  onPress={() => toggleDay(index, position + 1)}
+                >
+                  <Text style={[styles.optionText, active && styles.optionTextActive]}>{label}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          {renderError(windowFieldKey(index, "days"))}
+          <Pressable
+            style={styles.ghostButton}
+            onPress={() => onChange({ tradingWindows: form.tradingWindows.filter((_, position) => position !== index) })}
+          >
+            <Text style={styles.ghostButtonText}>Remove window</Text>
+          </Pressable>
+        </View>
+      ))}
+      <Pressable
+        style={styles.ghostButton}
+        onPress={() => onChange({ tradingWindows: [...form.tradingWindows, NEW_WINDOW] })}
+      >
+        <Text style={styles.ghostButtonText}>Add window</Text>
+      </Pressable>
+      {form.tradingWindows.length ? (
+        <>
+          <Text style={styles.inputLabel}>Blackout dates (YYYY-MM-DD, comma separated)</Text>
+          <TextInput
+            style={[styles.input, errors.blackoutDates && styles.inputInvalid]}
+            value={form.blackoutDates}
+            onChangeText={(value) => onChange({ blackoutDates: value })}
+            placeholder="2026-12-25,2027-01-01"
+            placeholderTextColor="#6B7280"
+          />
+          {renderError("blackoutDates")}
+        </>
+      ) : null}
+
+      <Text style={styles.panelTitle}>Per-symbol settings</Text>
+      <Text style={styles.panelLine}>Leave a field blank to use the value above.</Text>
+      {parseSymbols(form.symbols).map((symbol) => {
+        const draft = form.symbolOverrides[symbol] ?? emptyOverrideDraft;
+        const errorKey = (field: OverrideField) => overrideFieldKey(symbol, field);
+        return (
+          <View key={symbol} style={styles.positionCard}>
+            <Text style={styles.notificationTitle}>{symbol}</Text>
+            <OptionGroup
+              options={[
+                { value: "on", label: "Enabled" },
+                { value: "off", label: "Disabled" },
+              ]}
+              selected={draft.enabled ? "on" : "off"}
+              onSelect={(value) => updateSymbolOverride(symbol, { enabled: value === "on" })}
+            />
+            {draft.enabled ? (
+              <>
+                <View style={styles.rowButtons}>
+                  <View style={styles.flexColumn}>
+                    <Text style={styles.inputLabel}>Quantity</Text>
+                    <TextInput
+                      style={[styles.input, errors[errorKey("quantity")] && styles.inputInvalid]}
+                      value={draft.quantity}
+                      onChangeText={(value) => updateSymbolOverride(symbol, { quantity: value })}
+                      placeholder={form.quantity}
+                      keyboardType="decimal-pad"
+                      placeholderTextColor="#6B7280"
+                    />
+                    {renderError(errorKey("quantity"))}
+                  </View>
+                  <View style={styles.flexColumn}>
+                    <Text style={styles.inputLabel}>Max trades</Text>
+                    <TextInput
+                      style={[styles.input, errors[errorKey("maxTrades")] && styles.inputInvalid]}
+                      value={draft.maxTrades}
+                      onChangeText={(value) => updateSymbolOverride(symbol, { maxTrades: value })}
+                      placeholder={form.maxTrades}
+                      keyboardType="numeric"
+                      placeholderTextColor="#6B7280"
+                    />
+                    {renderError(errorKey("maxTrades"))}
+                  </View>
+                </View>
+                <View style={styles.rowButtons}>
+                  <View style={styles.flexColumn}>
+                    <Text style={styles.inputLabel}>Profit threshold</Text>
+                    <TextInput
+                      style={[styles.input, errors[errorKey("profitThreshold")] && styles.inputInvalid]}
+                      value={draft.profitThreshold}
+                      onChangeText={(value) => updateSymbolOverride(symbol, { profitThreshold: value })}
+                      placeholder={form.profitTarget}
+                      keyboardType="decimal-pad"
+                      placeholderTextColor="#6B7280"
+                    />
+                    {renderError(errorKey("profitThreshold"))}
+                  </View>
+                  <View style={styles.flexColumn}>
+                    <Text style={styles.inputLabel}>Loss threshold</Text>
+                    <TextInput
+                      style={[styles.input, errors[errorKey("lossThreshold")] && styles.inputInvalid]}
+                      value={draft.lossThreshold}
+                      onChangeText={(value) => updateSymbolOverride(symbol, { lossThreshold: value })}
+                      placeholder={form.lossLimit}
+                      keyboardType="decimal-pad"
+                      placeholderTextColor="#6B7280"
+                    />
+                    {renderError(errorKey("lossThreshold"))}
+                  </View>
+                </View>
+              </>
+            ) : null}
+          </View>
+        );
+      })}
+    </>
+  );
+}
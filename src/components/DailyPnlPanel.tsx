@@ -0,0 +1,55 @@
+import { Pressable, Text, View } from "react-native";
+
+import type { DailyPnlResponse, RiskConfigResponse, TradingMode } from "../api";
+import { styles } from "../theme";
+import { PaperNotice } from "./TradingMode";
+
+type DailyPnlPanelProps = {
+  pnl: DailyPnlResponse | null;
+  mode?: TradingMode;
+  // The risk settings saved on the server, null until they have loaded.
+  risk: RiskConfigResponse | null;
+  onOpenCalendar: () => void;
+};
+
+export function DailyPnlPanel({ pnl, mode = "live", risk, onOpenCalendar }: DailyPnlPanelProps) {
+  const total = pnl?.total_pnl ?? 0;
+  const profitTarget = risk?.daily_profit_target ?? 0;
+  const lossLimit = Math.abs(risk?.daily_loss_limit ?? 0);
+  const targetProgress = profitTarget > 0 ? Math.min(1, Math.max(0, total / profitTarget)) : 0;
+  const lossUsage = lossLimit > 0 ? Math.min(1, Math.max(0, -total / lossLimit)) : 0;
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.panelTitle}>{mode === "paper" ? "Today's paper PnL" : "Today's PnL"}</Text>
+      {mode === "paper" ? <PaperNotice>Simulated trades. Not part of your live results.</PaperNotice> : null}
+      {pnl ? (
+        <>
+          <Text style={styles.panelLine}>
+            Realized {pnl.realized_pnl.toFixed(2)} • Unrealized {pnl.unrealized_pnl.toFixed(2)} • Total{" "}
+            <Text style={total >= 0 ? styles.pnlPositive : styles.pnlNegative}>{total.toFixed(2)}</Text>
+          </Text>
+          {risk ? null : <Text style={styles.panelLine}>Daily target and loss limit not loaded yet.</Text>}
+          <Text style={styles.panelLine}>
+            Target {profitTarget.toFixed(2)} • {(targetProgress * 100).toFixed(0)}%
+            {targetProgress >= 1 ? " • reached" : ""}
+          </Text>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${targetProgress * 100}%`, backgroundColor: "#22C55E" }]} />
+          </View>
+          <Text style={styles.panelLine}>
+            Loss limit {lossLimit.toFixed(2)} • {(lossUsage * 100).toFixed(0)}% used
+            {lossUsage >= 1 ? " • limit hit" : ""}
+          </Text>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${lossUsage * 100}%`, backgroundColor: "#EF4444" }]} />
+          </View>
+        </>
+      ) : (
+        <Text style={styles.panelLine}>No PnL reported yet today.</Text>
+      )}
+      <Pressable style={styles.ghostButton} onPress={onOpenCalendar}>
+        <Text style={styles.ghostButtonText}>PnL calendar</Text>
+      </Pressable>
+    </View>
+  );
+}
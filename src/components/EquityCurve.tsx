@@ -0,0 +1,34 @@
+import { Text, View } from "react-native";
+
+import type { EquityPoint } from "../analytics";
+import { styles } from "../theme";
+
+type EquityCurveProps = {
+  points: EquityPoint[];
+};
+
+export function EquityCurve({ points }: EquityCurveProps) {
+  if (points.length < 2) {
+    return <Text style={styles.panelLine}>Not enough trades to draw a curve.</Text>;
+  }
+  const values = points.map((point) => point.equity);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const range = max - min || 1;
+  return (
+    <View style={styles.equityCurve}>
+      {points.map((point, index) => (
+        <View
+          key={`${point.time}-${index}`}
+          style={[
+            styles.equityBar,
+            {
+              height: `${Math.max(2, ((point.equity - min) / range) * 100)}%`,
+              backgroundColor: point.equity >= 0 ? "#22C55E" : "#EF4444",
+            },
+          ]}
+        />
+      ))}
+    </View>
+  );
+}
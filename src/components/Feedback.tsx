@@ -0,0 +1,21 @@
+import { ActivityIndicator, Text } from "react-native";
+
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { RequestState } from "../useRequest";
+
+type FeedbackProps = {
+  request: RequestState;
+};
+
+export function Feedback({ request }: FeedbackProps) {
+  const { latencyWarning } = useAppStore();
+  return (
+    <>
+      {latencyWarning ? <Text style={styles.warningText}>{latencyWarning}</Text> : null}
+      {request.loading ? <ActivityIndicator size="small" color="#A78BFA" style={styles.feedbackSpinner} /> : null}
+      {request.error ? <Text style={styles.errorText}>{request.error}</Text> : null}
+      {request.successMessage ? <Text style={styles.successText}>{request.successMessage}</Text> : null}
+    </>
+  );
+}
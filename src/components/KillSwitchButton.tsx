@@ -0,0 +1,19 @@
+import { useNavigation } from "@react-navigation/native";
+import { Pressable, Text } from "react-native";
+
+import { RootNavigation } from "../navigation/types";
+import { styles } from "../theme";
+
+// Only opens the kill switch screen; firing it takes a deliberate hold there.
+export function KillSwitchButton() {
+  const navigation = useNavigation<RootNavigation>();
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.killSwitchHeaderButton, pressed && styles.buttonPressed]}
+      onPress={() => navigation.navigate("KillSwitch")}
+      accessibilityLabel="Open the kill switch"
+    >
+      <Text style={styles.killSwitchHeaderText}>KILL</Text>
+    </Pressable>
+  );
+}
@@ -0,0 +1,49 @@
+import { useEffect } from "react";
+import { Pressable, Text, View } from "react-native";
+
+import { confirm } from "../confirm";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { PinForm } from "./PinForm";
+
+// Covers the whole app while it is locked; the screens underneath keep their state.
+export function LockScreen() {
+  const { appLock, unlockWithPin, unlockWithBiometrics, logout } = useAppStore();
+
+  useEffect(() => {
+    unlockWithBiometrics().catch(() => undefined);
+  }, []);
+
+  async function handleForgotPin(): Promise<void> {
+    const confirmed = await confirm(
+      "Forgot your PIN?",
+      "You will be logged out and the app lock removed. Log in again to set a new PIN.",
+      "Log out",
+    );
+    if (confirmed) {
+      await logout();
+    }
+  }
+
+  return (
+    <View style={styles.lockOverlay}>
+      <View style={styles.authCard}>
+        <PinForm
+          title="Apex Scalper is locked"
+          subtitle="Enter your PIN to continue."
+          submitLabel="Unlock"
+          onSubmit={unlockWithPin}
+        >
+          {appLock.biometrics ? (
+            <Pressable style={styles.ghostButton} onPress={() => unlockWithBiometrics().catch(() => undefined)}>
+              <Text style={styles.ghostButtonText}>Use biometrics</Text>
+            </Pressable>
+          ) : null}
+          <Pressable style={styles.ghostButton} onPress={handleForgotPin}>
+            <Text style={styles.ghostButtonText}>Forgot PIN</Text>
+          </Pressable>
+        </PinForm>
+      </View>
+    </View>
+  );
+}
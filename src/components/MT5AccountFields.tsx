@@ -0,0 +1,66 @@
+import { Text, TextInput } from "react-native";
+
+import type { PersistedMT5Account } from "../storage";
+import { styles } from "../theme";
+import { credentialWarning, urlSecurity } from "../urlSecurity";
+
+type MT5AccountFieldsProps = {
+  form: PersistedMT5Account;
+  onChange: (patch: Partial<PersistedMT5Account>) => void;
+  password: string;
+  onPasswordChange: (password: string) => void;
+  // The URL the credentials will be sent to, checked so an unencrypted one is flagged before typing.
+  baseUrl: string;
+};
+
+export function MT5AccountFields({ form, onChange, password, onPasswordChange, baseUrl }: MT5AccountFieldsProps) {
+  const warning = credentialWarning(baseUrl);
+  return (
+    <>
+      {warning ? (
+        <Text style={urlSecurity(baseUrl) === "insecure" ? styles.errorText : styles.warningText}>{warning}</Text>
+      ) : null}
+
+      <Text style={styles.inputLabel}>Broker</Text>
+      <TextInput
+        style={styles.input}
+        value={form.broker}
+        onChangeText={(value) => onChange({ broker: value })}
+        placeholder="e.g. IC Markets"
+        placeholderTextColor="#6B7280"
+      />
+
+      <Text style={styles.inputLabel}>MT5 Login</Text>
+      <TextInput
+        style={styles.input}
+        value={form.login}
+        onChangeText={(value) => onChange({ login: value })}
+        keyboardType="numeric"
+        placeholder="Account number"
+        placeholderTextColor="#6B7280"
+      />
+
+      <Text style={styles.inputLabel}>MT5 Password</Text>
+      <TextInput
+        style={styles.input}
+        value={password}
+        onChangeText={onPasswordChange}
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        textContentType="password"
+        placeholderTextColor="#6B7280"
+      />
+
+      <Text style={styles.inputLabel}>Server</Text>
+      <TextInput
+        style={styles.input}
+        value={form.server}
+        onChangeText={(value) => onChange({ server: value })}
+        autoCapitalize="none"
+        placeholder="e.g. ICMarketsSC-Demo"
+        placeholderTextColor="#6B7280"
+      />
+    </>
+  );
+}
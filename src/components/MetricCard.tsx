@@ -0,0 +1,17 @@
+import { Text, View } from "react-native";
+
+import { styles } from "../theme";
+
+type MetricCardProps = {
+  label: string;
+  value: string;
+};
+
+export function MetricCard({ label, value }: MetricCardProps) {
+  return (
+    <View style={styles.metricCard}>
+      <Text style={styles.metricLabel}>{label}</Text>
+      <Text style={styles.metricValue}>{value}</Text>
+    </View>
+  );
+}
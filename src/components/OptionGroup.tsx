@@ -0,0 +1,25 @@
+import { Pressable, Text, View } from "react-native";
+
+import { styles } from "../theme";
+
+type OptionGroupProps<T extends string> = {
+  options: { value: T; label: string }[];
+  selected: T;
+  onSelect: (value: T) => void;
+};
+
+export function OptionGroup<T extends string>({ options, selected, onSelect }: OptionGroupProps<T>) {
+  return (
+    <View style={styles.rowButtons}>
+      {options.map((option) => (
+        <Pressable
+          key={option.value}
+          style={[styles.optionButton, selected === option.value && styles.optionButtonActive]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text style={[styles.optionText, selected === option.value && styles.optionTextActive]}>{option.label}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
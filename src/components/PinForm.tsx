@@ -0,0 +1,60 @@
+import { ReactNode, useState } from "react";
+import { Pressable, Text, TextInput } from "react-native";
+
+import type { PinCheck } from "../appLock";
+import { styles } from "../theme";
+
+type PinFormProps = {
+  title: string;
+  subtitle: string;
+  submitLabel: string;
+  onSubmit: (pin: string) => Promise<PinCheck>;
+  // Extra actions below the submit button, e.g. biometrics or cancel.
+  children?: ReactNode;
+};
+
+// PIN entry shared by the lock screen and the re-authentication prompt.
+export function PinForm({ title, subtitle, submitLabel, onSubmit, children }: PinFormProps) {
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  async function handleSubmit(): Promise<void> {
+    if (!pin || checking) {
+      return;
+    }
+    setChecking(true);
+    const check = await onSubmit(pin);
+    setChecking(false);
+    setPin("");
+    setError(check.ok ? null : check.message);
+  }
+
+  return (
+    <>
+      <Text style={styles.onboardingTitle}>{title}</Text>
+      <Text style={styles.brandSubtitle}>{subtitle}</Text>
+      <TextInput
+        style={[styles.input, error && styles.inputInvalid]}
+        value={pin}
+        onChangeText={(value) => setPin(value.replace(/\D/g, ""))}
+        onSubmitEditing={handleSubmit}
+        keyboardType="number-pad"
+        secureTextEntry
+        maxLength={8}
+        autoFocus
+        placeholder="PIN"
+        placeholderTextColor="#6B7280"
+      />
+      {error ? <Text style={styles.fieldErrorText}>{error}</Text> : null}
+      <Pressable
+        style={[styles.primaryButton, (!pin || checking) && styles.buttonDisabled]}
+        onPress={handleSubmit}
+        disabled={!pin || checking}
+      >
+        <Text style={styles.primaryButtonText}>{submitLabel}</Text>
+      </Pressable>
+      {children}
+    </>
+  );
+}
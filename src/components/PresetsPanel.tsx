@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { Pressable, Share, Text, TextInput, View } from "react-native";
+
+import type { ConfigForm } from "../configForm";
+import { confirm } from "../confirm";
+import { ConfigPreset, exportPresets, formFromPreset, mergePresets, parsePresetDocument, presetFromForm } from "../presets";
+import { loadPresets, savePresets } from "../storage";
+import { styles } from "../theme";
+import { RequestState } from "../useRequest";
+import { hasErrors, validateConfigForm } from "../validation";
+
+type PresetsPanelProps = {
+  form: ConfigForm;
+  // Replaces the form; nothing is sent to the backend until the screen's own save.
+  onApply: (form: ConfigForm) => void;
+  // Messages go to the screen's feedback area, next to its save button.
+  request: RequestState;
+};
+
+export function PresetsPanel({ form, onApply, request }: PresetsPanelProps) {
+  const [presets, setPresets] = useState<ConfigPreset[]>([]);
+  const [name, setName] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [importText, setImportText] = useState("");
+
+  useEffect(() => {
+    loadPresets().then(setPresets);
+  }, []);
+
+  async function store(next: ConfigPreset[], message: string): Promise<void> {
+    const saved = await request.run(async () => {
+      await savePresets(next);
+      return next;
+    });
+    if (saved) {
+      setPresets(saved);
+      request.setSuccessMessage(message);
+    }
+  }
+
+  async function handleSave(): Promise<void> {
+    if (!name.trim()) {
+      request.setError("Give the preset a name");
+      return;
+    }
+    if (hasErrors(validateConfigForm(form))) {
+      request.setError("Some fields below are invalid. Fix them before saving a preset");
+      return;
+    }
+    const existing = presets.find((preset) => preset.name.toLowerCase() === name.trim().toLowerCase());
+    if (existing && !(await confirm("Replace preset?", `"${existing.name}" will be overwritten.`, "Replace"))) {
+      return;
+    }
+    await store(mergePresets(presets, [presetFromForm(name, form)]), `Saved "${name.trim()}"`);
+    setName("");
+  }
+
+  async function handleDelete(preset: ConfigPreset): Promise<void> {
+    if (await confirm("Delete preset?", `"${preset.name}" will be removed from this device.`, "Delete")) {
+      await store(presets.filter((item) => item !== preset), `Deleted "${preset.name}"`);
+    }
+  }
+
+  function handleApply(preset: ConfigPreset): void {
+    onApply(formFromPreset(preset));
+    request.setError(null);
+    request.setSuccessMessage(`Applied "${preset.name}". Save to send it to the bot.`);
+  }
+
+  async function handleExport(): Promise<void> {
+    await request.run(() => Share.share({ title: "Apex Scalper presets", message: exportPresets(presets) }));
+  }
+
+  async function handleImport(): Promise<void> {
+    let imported: ConfigPreset[];
+    try {
+      imported = parsePresetDocument(importText);
+    } catch (error) {
+      request.setSuccessMessage(null);
+      request.setError(error instanceof Error ? error.message : "Could not read the presets");
+      return;
+    }
+    await store(mergePresets(presets, imported), `Imported ${imported.length} preset(s)`);
+    setImportText("");
+    setImporting(false);
+  }
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.panelTitle}>Presets</Text>
+      {presets.length ? null : <Text style={styles.panelLine}>No presets on this device yet.</Text>}
+      {presets.map((preset) => (
+        <View key={preset.name} style={styles.positionCard}>
+          <Text style={styles.notificationTitle}>{preset.name}</Text>
+          <Text style={styles.panelLine}>
+            {preset.config.trading.assets.join(", ")} • {preset.config.trading.quantity} lots •{" "}
+            {preset.config.trading.max_trades_per_session} trades • {preset.config.session.duration_minutes} min
+          </Text>
+          <View style={styles.rowButtons}>
+            <Pressable style={styles.primaryButton} onPress={() => handleApply(preset)}>
+              <Text style={styles.primaryButtonText}>Apply</Text>
+            </Pressable>
+            <Pressable style={styles.ghostButton} onPress={() => handleDelete(preset)}>
+              <Text style={styles.ghostButtonText}>Delete</Text>
+            </Pressable>
+          </View>
+        </View>
+      ))}
+
+      <Text style={styles.inputLabel}>Save the form below as</Text>
+      <View style={styles.rowButtons}>
+        <TextInput
+          style={[styles.input, styles.flexColumn]}
+          value={name}
+          onChangeText={setName}
+          placeholder="e.g. Conservative gold"
+          placeholderTextColor="#6B7280"
+        />
+        <Pressable style={styles.ghostButton} onPress={handleSave}>
+          <Text style={styles.ghostButtonText}>Save preset</Text>
+        </Pressable>
+      </View>
+
+      {importing ? (
+        <>
+          <Text style={styles.inputLabel}>Paste an exported presets document</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={importText}
+            onChangeText={setImportText}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            placeholder='{"format": "apex-scalper/config-presets", ...}'
+            placeholderTextColor="#6B7280"
+          />
+          <View style={styles.rowButtons}>
+            <Pressable style={styles.ghostButton} onPress={() => setImporting(false)}>
+              <Text style={styles.ghostButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable style={styles.primaryButton} onPress={handleImport}>
+              <Text style={styles.primaryButtonText}>Import</Text>
+            </Pressable>
+          </View>
+        </>
+      ) : (
+        <View style={styles.rowButtons}>
+          <Pressable style={styles.ghostButton} onPress={() => setImporting(true)}>
+            <Text style={styles.ghostButtonText}>Import</Text>
+          </Pressable>
+          <Pressable
+            style={[styles.ghostButton, !presets.length && styles.buttonDisabled]}
+            onPress={handleExport}
+            disabled={!presets.length}
+          >
+            <Text style={styles.ghostButtonText}>Export all</Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,29 @@
+import { Modal, Pressable, Text, View } from "react-native";
+
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { PinForm } from "./PinForm";
+
+// Asks for the app PIN before a sensitive action when biometrics are off or were declined.
+export function ReauthPrompt() {
+  const { reauthReason, answerReauth } = useAppStore();
+
+  return (
+    <Modal visible={reauthReason !== null} transparent animationType="fade" onRequestClose={() => answerReauth(null)}>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.authCard}>
+          <PinForm
+            title="Confirm it's you"
+            subtitle={reauthReason ?? ""}
+            submitLabel="Confirm"
+            onSubmit={answerReauth}
+          >
+            <Pressable style={styles.ghostButton} onPress={() => answerReauth(null)}>
+              <Text style={styles.ghostButtonText}>Cancel</Text>
+            </Pressable>
+          </PinForm>
+        </View>
+      </View>
+    </Modal>
+  );
+}
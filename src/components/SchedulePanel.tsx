@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Pressable, Text, View } from "react-native";
+
+import type { SessionSchedule } from "../api";
+import { activeSession, formatCountdown, formatDays, isValidTimeZone, nextSession } from "../schedule";
+import { styles } from "../theme";
+
+type SchedulePanelProps = {
+  schedule: SessionSchedule | null;
+  onEdit: () => void;
+};
+
+// Often enough that the countdown never lags by more than its minute resolution.
+const CLOCK_INTERVAL_MS = 30_000;
+
+function clockTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+export function SchedulePanel({ schedule, onEdit }: SchedulePanelProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!schedule?.windows.length) {
+      return;
+    }
+    const timer = setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [schedule]);
+
+  if (!schedule?.windows.length) {
+    return (
+      <View style={styles.panel}>
+        <Text style={styles.panelTitle}>Trading schedule</Text>
+        <Text style={styles.panelLine}>No trading windows. The bot only runs when started by hand.</Text>
+        <Pressable style={styles.ghostButton} onPress={onEdit}>
+          <Text style={styles.ghostButtonText}>Set up a schedule</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  // The backend's timezone is not checked when decoding; an unknown one would make the session maths throw.
+  if (!isValidTimeZone(schedule.timezone)) {
+    return (
+      <View style={styles.panel}>
+        <Text style={styles.panelTitle}>Trading schedule</Text>
+        <Text style={styles.panelLine}>
+          Schedule unavailable: the timezone {schedule.timezone || "(none)"} is not recognised on this device.
+        </Text>
+        <Pressable style={styles.ghostButton} onPress={onEdit}>
+          <Text style={styles.ghostButtonText}>Edit schedule</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  const active = activeSession(schedule, now);
+  const upcoming = nextSession(schedule, now);
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.panelTitle}>Trading schedule</Text>
+      {active ? (
+        <Text style={styles.panelLine}>
+          In session: {active.window.name || "Trading window"} until {clockTime(active.end)} (
+          {formatCountdown(active.end.getTime() - now.getTime())} left)
+        </Text>
+      ) : null}
+      {upcoming ? (
+        <Text style={styles.panelLine}>
+          Next: {upcoming.window.name || "Trading window"} • {formatDays(upcoming.window.days)} at{" "}
+          {clockTime(upcoming.start)} • starts in {formatCountdown(upcoming.start.getTime() - now.getTime())}
+        </Text>
+      ) : (
+        <Text style={styles.panelLine}>No session in the next three weeks.</Text>
+      )}
+      <Text style={styles.panelLine}>
+        Times shown on this device's clock. Schedule timezone: {schedule.timezone}
+      </Text>
+      <Pressable style={styles.ghostButton} onPress={onEdit}>
+        <Text style={styles.ghostButtonText}>Edit schedule</Text>
+      </Pressable>
+    </View>
+  );
+}
@@ -0,0 +1,31 @@
+import { View } from "react-native";
+
+import { styles } from "../theme";
+
+type SparklineProps = {
+  values: number[];
+  limit: number;
+};
+
+export function Sparkline({ values, limit }: SparklineProps) {
+  if (values.length < 2) {
+    return null;
+  }
+  const max = Math.max(limit, ...values) || 1;
+  return (
+    <View style={styles.sparkline}>
+      {values.map((value, index) => (
+        <View
+          key={index}
+          style={[
+            styles.equityBar,
+            {
+              height: `${Math.max(4, (value / max) * 100)}%`,
+              backgroundColor: value > limit ? "#EF4444" : "#8B5CF6",
+            },
+          ]}
+        />
+      ))}
+    </View>
+  );
+}
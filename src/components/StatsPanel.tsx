@@ -0,0 +1,31 @@
+import { Text, View } from "react-native";
+
+import type { PerformanceStats } from "../analytics";
+import { styles } from "../theme";
+
+type StatsPanelProps = {
+  title: string;
+  stats: PerformanceStats;
+};
+
+export function StatsPanel({ title, stats }: StatsPanelProps) {
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.panelTitle}>{title}</Text>
+      <Text style={styles.panelLine}>
+        {stats.trades} trades • {stats.wins}W / {stats.losses}L • win rate {(stats.winRate * 100).toFixed(1)}%
+      </Text>
+      <Text style={styles.panelLine}>
+        Net <Text style={stats.netPnl >= 0 ? styles.pnlPositive : styles.pnlNegative}>{stats.netPnl.toFixed(2)}</Text> •
+        expectancy {stats.expectancy.toFixed(4)}
+      </Text>
+      <Text style={styles.panelLine}>
+        Avg win {stats.averageWin.toFixed(4)} • avg loss {stats.averageLoss.toFixed(4)} • profit factor{" "}
+        {stats.profitFactor === null ? "—" : stats.profitFactor.toFixed(2)}
+      </Text>
+      <Text style={styles.panelLine}>
+        Max drawdown {stats.maxDrawdown.toFixed(2)} • longest losing streak {stats.longestLosingStreak}
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,23 @@
+import { Text, View } from "react-native";
+
+import type { TradingMode } from "../api";
+import { styles } from "../theme";
+
+export const TRADING_MODE_OPTIONS: { value: TradingMode; label: string }[] = [
+  { value: "live", label: "Live" },
+  { value: "paper", label: "Paper" },
+];
+
+// Marks a single simulated trade wherever it appears next to live ones; renders nothing for live trades.
+export function PaperBadge({ mode }: { mode: TradingMode }) {
+  return mode === "paper" ? <Text style={styles.paperBadge}>PAPER</Text> : null;
+}
+
+// Heads a screen or panel that is showing paper results instead of live ones.
+export function PaperNotice({ children }: { children: string }) {
+  return (
+    <View style={styles.paperNotice}>
+      <Text style={styles.paperNoticeText}>{children}</Text>
+    </View>
+  );
+}
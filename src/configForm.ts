@@ -0,0 +1,135 @@
+import type {
+    ConfigurationRequest,
+    RiskConfigRequest,
+    RiskConfigResponse,
+    SessionConfigRequest,
+    SessionConfigResponse,
+    SessionSchedule,
+    TradingConfigRequest,
+    TradingConfigResponse,
+    TradingWindow,
+} from "./api";
+import { deviceTimeZone } from "./schedule";
+import { SymbolOverrideDraft, buildSymbolOverrides, draftsFromOverrides, parseSymbols } from "./symbolConfig";
+
+// The configuration form as the user edits it: text fields, not yet parsed.
+export type ConfigForm = {
+    symbols: string;
+    timeframe: "M1" | "M5";
+    quantity: string;
+    maxTrades: string;
+    profitTarget: string;
+    lossLimit: string;
+    allocatedCapital: string;
+    sessionMinutes: string;
+    symbolOverrides: Record<string, SymbolOverrideDraft>;
+    timezone: string;
+    tradingWindows: TradingWindow[];
+    // Comma separated YYYY-MM-DD dates.
+    blackoutDates: string;
+};
+
+export type ConfigSection = "trading" | "risk" | "session";
+
+export type ConfigRequests = {
+    trading: TradingConfigRequest;
+    risk: RiskConfigRequest;
+    session: SessionConfigRequest;
+};
+
+export const CONFIG_SECTIONS: ConfigSection[] = ["trading", "risk", "session"];
+
+// The form has a single profit target and loss limit that drive both the per-trade thresholds and
+// the daily risk limits, so the risk config is the source for those fields when loading.
+export function formFromConfig(
+    trading: TradingConfigResponse,
+    risk: RiskConfigResponse,
+    session: SessionConfigResponse,
+): ConfigForm {
+    return {
+        symbols: trading.assets.join(","),
+        timeframe: trading.timeframe,
+        quantity: String(trading.quantity),
+        maxTrades: String(trading.max_trades_per_session),
+        profitTarget: String(risk.daily_profit_target),
+        lossLimit: String(Math.abs(risk.daily_loss_limit)),
+        allocatedCapital: String(risk.allocated_capital),
+        sessionMinutes: String(session.duration_minutes),
+        symbolOverrides: draftsFromOverrides(trading.symbol_overrides ?? []),
+        timezone: session.schedule?.timezone ?? deviceTimeZone(),
+        tradingWindows: session.schedule?.windows ?? [],
+        blackoutDates: session.schedule?.blackout_dates.join(",") ?? "",
+    };
+}
+
+export function parseBlackoutDates(text: string): string[] {
+    return [...new Set(text.split(",").map((date) => date.trim()).filter(Boolean))].sort();
+}
+
+// No windows means no schedule: the bot is then only started by hand.
+function buildSchedule(form: ConfigForm): SessionSchedule | undefined {
+    if (!form.tradingWindows.length) {
+        return undefined;
+    }
+    return {
+        timezone: form.timezone.trim(),
+        windows: form.tradingWindows.map((window) => ({
+            name: window.name.trim(),
+            start: window.start.trim(),
+            end: window.end.trim(),
+            days: [...window.days].sort((a, b) => a - b),
+        })),
+        blackout_dates: parseBlackoutDates(form.blackoutDates),
+    };
+}
+
+export function buildConfigRequests(userId: string, form: ConfigForm): ConfigRequests {
+    const assets = parseSymbols(form.symbols);
+    return {
+        trading: {
+            user_id: userId,
+            assets,
+            timeframe: form.timeframe,
+            max_trades_per_session: Number(form.maxTrades),
+            quantity: Number(form.quantity),
+            profit_threshold: Number(form.profitTarget),
+            loss_threshold: -Math.abs(Number(form.lossLimit)),
+            symbol_overrides: buildSymbolOverrides(assets, form.symbolOverrides),
+        },
+        risk: {
+            user_id: userId,
+            daily_profit_target: Number(form.profitTarget),
+            daily_loss_limit: Math.abs(Number(form.lossLimit)),
+            allocated_capital: Number(form.allocatedCapital),
+        },
+        session: {
+            user_id: userId,
+            duration_minutes: Number(form.sessionMinutes),
+            schedule: buildSchedule(form),
+        },
+    };
+}
+
+export function changedSections(saved: ConfigRequests, next: ConfigRequests): ConfigSection[] {
+    return CONFIG_SECTIONS.filter((section) => JSON.stringify(saved[section]) !== JSON.stringify(next[section]));
+}
+
+export function configurationPayload(
+    requests: ConfigRequests,
+    sections: ConfigSection[] = CONFIG_SECTIONS,
+): ConfigurationRequest {
+    const payload: ConfigurationRequest = { user_id: requests.trading.user_id };
+    if (sections.includes("trading")) {
+        const { user_id: _userId, ...trading } = requests.trading;
+        payload.trading = trading;
+    }
+    if (sections.includes("risk")) {
+        const { user_id: _userId, ...risk } = requests.risk;
+        payload.risk = risk;
+    }
+    if (sections.includes("session")) {
+        const { user_id: _userId, ...session } = requests.session;
+        payload.session = session;
+    }
+    return payload;
+}
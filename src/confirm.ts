@@ -0,0 +1,10 @@
+import { Alert } from "react-native";
+
+export function confirm(title: string, message: string, confirmLabel: string): Promise<boolean> {
+    return new Promise((resolve) => {
+        Alert.alert(title, message, [
+            { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+            { text: confirmLabel, style: "destructive", onPress: () => resolve(true) },
+        ]);
+    });
+}
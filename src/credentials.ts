@@ -0,0 +1,44 @@
+import * as SecureStore from "expo-secure-store";
+
+// MT5 passwords are only ever written to the keychain / keystore, one entry per login and server, with an
+// index of the entries so they can all be removed on logout. SecureStore keys allow [A-Za-z0-9._-] only.
+const KEY_PREFIX = "apex-scalper.mt5-password.";
+const INDEX_KEY = "apex-scalper.mt5-password-index";
+
+function passwordKey(login: string, server: string): string {
+    return `${KEY_PREFIX}${`${login.trim()}@${server.trim()}`.replace(/[^A-Za-z0-9._-]/g, "_")}`;
+}
+
+async function loadIndex(): Promise<string[]> {
+    try {
+        const raw = await SecureStore.getItemAsync(INDEX_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch {
+        return [];
+    }
+}
+
+export async function saveMT5Password(login: string, server: string, password: string): Promise<void> {
+    const key = passwordKey(login, server);
+    await SecureStore.setItemAsync(key, password);
+    const index = await loadIndex();
+    if (!index.includes(key)) {
+        await SecureStore.setItemAsync(INDEX_KEY, JSON.stringify([...index, key]));
+    }
+}
+
+export async function loadMT5Password(login: string, server: string): Promise<string | null> {
+    return SecureStore.getItemAsync(passwordKey(login, server));
+}
+
+export async function deleteMT5Password(login: string, server: string): Promise<void> {
+    const key = passwordKey(login, server);
+    await SecureStore.deleteItemAsync(key);
+    const index = await loadIndex();
+    await SecureStore.setItemAsync(INDEX_KEY, JSON.stringify(index.filter((item) => item !== key)));
+}
+
+export async function clearMT5Passwords(): Promise<void> {
+    const index = await loadIndex();
+    await Promise.all([...index, INDEX_KEY].map((key) => SecureStore.deleteItemAsync(key)));
+}
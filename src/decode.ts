@@ -0,0 +1,112 @@
+// Small decoder combinators used to check backend payloads against the types in api.ts.
+// Decoders copy only the fields they know about, so extra backend fields are dropped, and
+// treat null the same as a missing value for optional fields.
+
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+export class DecodeError extends Error {
+    readonly path: string;
+    readonly expected: string;
+    readonly received: string;
+
+    constructor(path: string, expected: string, value: unknown) {
+        const received = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+        super(`${path || "response"}: expected ${expected}, received ${received}`);
+        this.name = "DecodeError";
+        this.path = path;
+        this.expected = expected;
+        this.received = received;
+    }
+}
+
+function join(path: string, key: string | number): string {
+    if (typeof key === "number") {
+        return `${path}[${key}]`;
+    }
+    return path ? `${path}.${key}` : key;
+}
+
+export const string: Decoder<string> = (value, path) => {
+    if (typeof value !== "string") {
+        throw new DecodeError(path, "string", value);
+    }
+    return value;
+};
+
+// Python backends sometimes serialise Decimal fields as strings; those are accepted when numeric.
+export const number: Decoder<number> = (value, path) => {
+    if (typeof value === "number" && Number.isFinite(value)) {
+        return value;
+    }
+    if (typeof value === "string" && value.trim() && Number.isFinite(Number(value))) {
+        return Number(value);
+    }
+    throw new DecodeError(path, "number", value);
+};
+
+export const boolean: Decoder<boolean> = (value, path) => {
+    if (typeof value !== "boolean") {
+        throw new DecodeError(path, "boolean", value);
+    }
+    return value;
+};
+
+export function literal<T extends string>(...allowed: T[]): Decoder<T> {
+    return (value, path) => {
+        if (typeof value !== "string" || !allowed.includes(value as T)) {
+            throw new DecodeError(path, allowed.map((item) => `"${item}"`).join(" | "), value);
+        }
+        return value as T;
+    };
+}
+
+export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+    return (value, path) => (value === undefined || value === null ? undefined : decoder(value, path));
+}
+
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+    return (value, path) => (value === undefined || value === null ? null : decoder(value, path));
+}
+
+export function withDefault<T>(decoder: Decoder<T>, fallback: T): Decoder<T> {
+    return (value, path) => (value === undefined || value === null ? fallback : decoder(value, path));
+}
+
+export function array<T>(decoder: Decoder<T>): Decoder<T[]> {
+    return (value, path) => {
+        if (!Array.isArray(value)) {
+            throw new DecodeError(path, "array", value);
+        }
+        return value.map((item, index) => decoder(item, join(path, index)));
+    };
+}
+
+export function record<T>(decoder: Decoder<T>): Decoder<Record<string, T>> {
+    return (value, path) => {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            throw new DecodeError(path, "object", value);
+        }
+        const result: Record<string, T> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = decoder(item, join(path, key));
+        }
+        return result;
+    };
+}
+
+export function object<T>(shape: { [K in keyof T]-?: Decoder<T[K]> }): Decoder<T> {
+    return (value, path) => {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            throw new DecodeError(path, "object", value);
+        }
+        const source = value as Record<string, unknown>;
+        const result = {} as T;
+        for (const key of Object.keys(shape) as (keyof T & string)[]) {
+            const decoded = shape[key](source[key], join(path, key));
+            if (decoded !== undefined) {
+                result[key] = decoded;
+            }
+        }
+        return result;
+    };
+}
@@ -0,0 +1,10 @@
+export function formatHeld(openedAt: string, now: number): string {
+    const elapsedSeconds = Math.max(0, Math.floor((now - new Date(openedAt).getTime()) / 1000));
+    const hours = Math.floor(elapsedSeconds / 3600);
+    const minutes = Math.floor((elapsedSeconds % 3600) / 60);
+    const seconds = elapsedSeconds % 60;
+    if (hours) {
+        return `${hours}h ${minutes}m`;
+    }
+    return minutes ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
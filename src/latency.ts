@@ -0,0 +1,91 @@
+import type { LatencyMetricStats, LatencyMetricsResponse } from "./api";
+
+export type LatencyThresholds = {
+    p95Ms: number;
+    p99Ms: number;
+};
+
+export type LatencySample = {
+    at: string;
+    metrics: LatencyMetricsResponse;
+};
+
+export type LatencyBreach = {
+    metric: string;
+    percentile: "p95" | "p99";
+    value: number;
+    threshold: number;
+};
+
+export type LatencyDegradation = {
+    metric: string;
+    baselineP95: number;
+    latestP95: number;
+};
+
+export const DEFAULT_LATENCY_THRESHOLDS: LatencyThresholds = { p95Ms: 250, p99Ms: 500 };
+
+export const MAX_LATENCY_SAMPLES = 240;
+
+// How far the latest p95 may rise above its recent median before it counts as a degradation.
+const DEGRADATION_FACTOR = 1.5;
+const BASELINE_SAMPLES = 10;
+
+export function isExecutionMetric(name: string): boolean {
+    return /order|execution|fill/i.test(name);
+}
+
+export function findBreaches(metrics: LatencyMetricsResponse, thresholds: LatencyThresholds): LatencyBreach[] {
+    const breaches: LatencyBreach[] = [];
+    for (const [metric, stats] of Object.entries(metrics)) {
+        if (stats.p95 > thresholds.p95Ms) {
+            breaches.push({ metric, percentile: "p95", value: stats.p95, threshold: thresholds.p95Ms });
+        }
+        if (stats.p99 > thresholds.p99Ms) {
+            breaches.push({ metric, percentile: "p99", value: stats.p99, threshold: thresholds.p99Ms });
+        }
+    }
+    return breaches;
+}
+
+export function appendSample(history: LatencySample[], sample: LatencySample): LatencySample[] {
+    return [...history, sample].slice(-MAX_LATENCY_SAMPLES);
+}
+
+export function metricSeries(history: LatencySample[], metric: string, percentile: keyof LatencyMetricStats): number[] {
+    return history
+        .map((sample) => sample.metrics[metric]?.[percentile])
+        .filter((value): value is number => typeof value === "number");
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Compares each execution metric's latest p95 with the median of the samples before it. Only
+// metrics that are both well above their baseline and above the configured p95 threshold are reported.
+export function detectDegradation(history: LatencySample[], thresholds: LatencyThresholds): LatencyDegradation[] {
+    if (history.length < 2) {
+        return [];
+    }
+    const latest = history[history.length - 1];
+    const previous = history.slice(-BASELINE_SAMPLES - 1, -1);
+    const degradations: LatencyDegradation[] = [];
+
+    for (const [metric, stats] of Object.entries(latest.metrics)) {
+        if (!isExecutionMetric(metric)) {
+            continue;
+        }
+        const baselineSeries = metricSeries(previous, metric, "p95");
+        if (!baselineSeries.length) {
+            continue;
+        }
+        const baselineP95 = median(baselineSeries);
+        if (stats.p95 > thresholds.p95Ms && stats.p95 > baselineP95 * DEGRADATION_FACTOR) {
+            degradations.push({ metric, baselineP95, latestP95: stats.p95 });
+        }
+    }
+    return degradations;
+}
@@ -0,0 +1,1120 @@
+import type {
+    AuthSession,
+    BotStatusResponse,
+    ClosedTradeItem,
+    ConfigurationRequest,
+    DailyPnlDay,
+    DailyPnlResponse,
+    DashboardSummaryResponse,
+    KillSwitchResponse,
+    LatencyMetricsResponse,
+    LicenseStatusResponse,
+    MT5AccountItem,
+    MT5ConnectTestResponse,
+    NotificationItem,
+    OpenTradeItem,
+    RiskConfigRequest,
+    SessionConfigRequest,
+    SessionSchedule,
+    TradingConfigRequest,
+    TradingMode,
+} from "./api";
+import type { HttpMethod, Transport } from "./client";
+import { activeSession, isValidTimeZone, parseClockTime } from "./schedule";
+import { enabledAssets, resolveSymbolSettings } from "./symbolConfig";
+
+export const MOCK_BASE_URL = "mock://apex";
+
+export type MockBackendOptions = {
+    seed?: number;
+    // Injectable clock so tests can fast-forward the simulated bot.
+    now?: () => number;
+    tickMs?: number;
+    responseDelayMs?: number;
+    historyDays?: number;
+    // Lifetime of an access token; tests shorten it to exercise the refresh on 401.
+    accessTokenTtlMs?: number;
+};
+
+export type MockBackend = {
+    transport: Transport;
+    reset: () => void;
+};
+
+// Trades belong to the MT5 account that was active when they opened, null for paper trades without one.
+type SimTrade = OpenTradeItem & {
+    direction: 1 | -1;
+    ticksOpen: number;
+    accountId: number | null;
+};
+
+type SimClosedTrade = ClosedTradeItem & {
+    accountId: number | null;
+};
+
+type TradeScope = (trade: { accountId: number | null }) => boolean;
+
+type SimState = {
+    random: () => number;
+    lastTick: number;
+    nextTradeId: number;
+    nextNotificationId: number;
+    tokenCounter: number;
+    // Email of the signed-in user for every refresh token that has not been used yet.
+    refreshTokens: Record<string, string>;
+    // Expiry time of every access token issued.
+    accessTokens: Record<string, number>;
+    startingBalance: number;
+    prices: Record<string, number>;
+    trading: Omit<TradingConfigRequest, "user_id">;
+    risk: Omit<RiskConfigRequest, "user_id">;
+    session: Omit<SessionConfigRequest, "user_id">;
+    accounts: MT5AccountItem[];
+    nextAccountId: number;
+    licenseKey: string | null;
+    bot: Omit<BotStatusResponse, "user_id">;
+    // True while the bot runs because a trading window opened; such runs end with the window.
+    scheduledRun: boolean;
+    // Start of the last window the bot was started for, so stopping it by hand keeps it stopped.
+    scheduledStartKey: string | null;
+    open: SimTrade[];
+    closed: SimClosedTrade[];
+    notifications: NotificationItem[];
+    latency: Record<string, number[]>;
+};
+
+type RouteContext = {
+    params: string[];
+    query: Record<string, string>;
+    body: unknown;
+    at: number;
+};
+
+type Route = {
+    method: HttpMethod;
+    pattern: RegExp;
+    auth: boolean;
+    handle: (state: SimState, context: RouteContext) => unknown;
+};
+
+class MockHttpError extends Error {
+    readonly status: number;
+
+    constructor(status: number, detail: string) {
+        super(detail);
+        this.status = status;
+    }
+}
+
+function bodyFields(body: unknown): Record<string, unknown> {
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        throw new MockHttpError(422, "The request body must be a JSON object");
+    }
+    return body as Record<string, unknown>;
+}
+
+function stringField(fields: Record<string, unknown>, name: string): string {
+    const value = fields[name] ?? "";
+    if (typeof value !== "string") {
+        throw new MockHttpError(422, `${name} must be a string`);
+    }
+    return value;
+}
+
+// Stand-in for the backend's request validation: every numeric field of a config section must be a finite number.
+function assertNumericFields(section: object | undefined, name: string, fields: string[]): void {
+    for (const field of fields) {
+        const value = (section as Record<string, unknown> | undefined)?.[field];
+        if (section && (typeof value !== "number" || !Number.isFinite(value))) {
+            throw new MockHttpError(422, `${name}.${field} must be a number`);
+        }
+    }
+}
+
+function assertSchedule(schedule: SessionSchedule | undefined): void {
+    if (!schedule) {
+        return;
+    }
+    if (!isValidTimeZone(schedule.timezone)) {
+        throw new MockHttpError(422, `session.schedule.timezone ${schedule.timezone} is not a known timezone`);
+    }
+    for (const window of schedule.windows) {
+        const start = parseClockTime(window.start);
+        const end = parseClockTime(window.end);
+        if (start === null || end === null || end <= start) {
+            throw new MockHttpError(422, `session.schedule window ${window.start}-${window.end} is not a valid range`);
+        }
+    }
+}
+
+// Results endpoints report live trading unless asked for paper results.
+function queryMode(query: Record<string, string>): TradingMode {
+    const mode = query.mode ?? "live";
+    if (mode !== "live" && mode !== "paper") {
+        throw new MockHttpError(422, `mode must be "live" or "paper", not ${mode}`);
+    }
+    return mode;
+}
+
+const BASE_PRICES: Record<string, number> = {
+    XAUUSD: 2350,
+    EURUSD: 1.085,
+    GBPUSD: 1.27,
+    USDJPY: 151.2,
+    BTCUSD: 64000,
+};
+
+const PRICE_VOLATILITY = 0.0004;
+// PnL is reported per unit of quantity as a percentage move, which keeps thresholds comparable across symbols.
+const PNL_SCALE = 100;
+const MAX_OPEN_TRADES = 3;
+const MAX_HOLD_TICKS = 40;
+const OPEN_PROBABILITY = 0.25;
+const MAX_LATENCY_SAMPLES = 200;
+const DAY_MS = 86_400_000;
+
+// mulberry32: small, fast and good enough to make every run with the same seed identical.
+function seededRandom(seed: number): () => number {
+    let value = seed >>> 0;
+    return () => {
+        value = (value + 0x6d2b79f5) >>> 0;
+        let t = value;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function round(value: number, digits: number = 4): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+function iso(at: number): string {
+    return new Date(at).toISOString();
+}
+
+function utcDay(timestamp: string | number): string {
+    return iso(new Date(timestamp).getTime()).slice(0, 10);
+}
+
+function percentile(values: number[], rank: number): number {
+    if (!values.length) {
+        return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor((rank / 100) * sorted.length))];
+}
+
+export function isMockBaseUrl(baseUrl: string): boolean {
+    return baseUrl.startsWith("mock://");
+}
+
+export function createMockBackend(options: MockBackendOptions = {}): MockBackend {
+    const seed = options.seed ?? 42;
+    const now = options.now ?? Date.now;
+    const tickMs = options.tickMs ?? 15_000;
+    const responseDelayMs = options.responseDelayMs ?? 120;
+    const historyDays = options.historyDays ?? 5;
+    const accessTokenTtlMs = options.accessTokenTtlMs ?? 3_600_000;
+
+    let state = initialState();
+
+    function initialState(): SimState {
+        const random = seededRandom(seed);
+        const start = now();
+        const seeded: SimState = {
+            random,
+            lastTick: start,
+            nextTradeId: 1,
+            nextNotificationId: 1,
+            tokenCounter: 0,
+            refreshTokens: {},
+            accessTokens: {},
+            startingBalance: 10_000,
+            prices: { ...BASE_PRICES },
+            trading: {
+                assets: ["XAUUSD", "EURUSD"],
+                timeframe: "M1",
+                max_trades_per_session: 10,
+                quantity: 1,
+                profit_threshold: 0.3,
+                loss_threshold: -0.25,
+            },
+            risk: { daily_profit_target: 0.3, daily_loss_limit: 0.25, allocated_capital: 50 },
+            session: { duration_minutes: 120 },
+            accounts: [],
+            nextAccountId: 1,
+            licenseKey: null,
+            bot: { running: false, mode: "live", trades_opened_this_session: 0 },
+            scheduledRun: false,
+            scheduledStartKey: null,
+            open: [],
+            closed: [],
+            notifications: [],
+            latency: {},
+        };
+        seedHistory(seeded, start);
+        return seeded;
+    }
+
+    // The seeded history is what the first MT5 account saved has traded before.
+    function seedHistory(sim: SimState, start: number): void {
+        for (let daysAgo = historyDays; daysAgo >= 1; daysAgo -= 1) {
+            const dayStart = Math.floor((start - daysAgo * DAY_MS) / DAY_MS) * DAY_MS;
+            const count = 3 + Math.floor(sim.random() * 6);
+            for (let index = 0; index < count; index += 1) {
+                const symbol = sim.trading.assets[Math.floor(sim.random() * sim.trading.assets.length)];
+                const openedAt = dayStart + (7 + sim.random() * 12) * 3_600_000;
+                const closedAt = openedAt + (1 + sim.random() * 20) * 60_000;
+                const direction = sim.random() < 0.5 ? 1 : -1;
+                const pnl = round(-0.25 + sim.random() * 0.55);
+                const entry = round(BASE_PRICES[symbol] * (1 + (sim.random() - 0.5) * 0.01), 5);
+                const close = round(entry * (1 + (pnl / PNL_SCALE) * direction), 5);
+                sim.closed.push({
+                    id: sim.nextTradeId++,
+                    symbol,
+                    side: direction === 1 ? "buy" : "sell",
+                    quantity: 1,
+                    entry_price: entry,
+                    close_price: close,
+                    pnl,
+                    close_reason: pnl >= 0 ? "take_profit" : "stop_loss",
+                    opened_at: iso(openedAt),
+                    closed_at: iso(closedAt),
+                    mode: "live",
+                    accountId: 1,
+                });
+            }
+        }
+    }
+
+    function notify(
+        sim: SimState,
+        at: number,
+        eventType: string,
+        title: string,
+        message: string,
+        tradeId?: number,
+    ): NotificationItem {
+        const notification: NotificationItem = {
+            id: sim.nextNotificationId++,
+            event_type: eventType,
+            title,
+            message,
+            channel: "in_app",
+            created_at: iso(at),
+            read: false,
+            trade_id: tradeId,
+        };
+        sim.notifications.unshift(notification);
+        return notification;
+    }
+
+    function tradePnl(trade: SimTrade, price: number): number {
+        return round(((price - trade.entry_price) / trade.entry_price) * trade.direction * trade.quantity * PNL_SCALE);
+    }
+
+    function closeSimTrade(sim: SimState, trade: SimTrade, reason: string, at: number): ClosedTradeItem {
+        const price = sim.prices[trade.symbol];
+        const closed: SimClosedTrade = {
+            id: trade.id,
+            symbol: trade.symbol,
+            side: trade.side,
+            quantity: trade.quantity,
+            entry_price: trade.entry_price,
+            close_price: round(price, 5),
+            pnl: tradePnl(trade, price),
+            close_reason: reason,
+            opened_at: trade.opened_at,
+            closed_at: iso(at),
+            mode: trade.mode,
+            accountId: trade.accountId,
+        };
+        sim.open = sim.open.filter((item) => item.id !== trade.id);
+        sim.closed.push(closed);
+        notify(
+            sim,
+            at,
+            "trade_closed",
+            closed.mode === "paper" ? "Paper trade closed" : "Trade closed",
+            `${closed.symbol} ${closed.close_reason} ${closed.pnl.toFixed(2)}`,
+            closed.id,
+        );
+        return publicClosedTrade(closed);
+    }
+
+    // Live and paper results never mix: each mode has its own PnL and its own risk limits.
+    function realizedToday(sim: SimState, at: number, mode: TradingMode, scope: TradeScope): number {
+        const today = utcDay(at);
+        return round(
+            sim.closed
+                .filter((trade) => trade.mode === mode && scope(trade) && utcDay(trade.closed_at) === today)
+                .reduce((total, trade) => total + trade.pnl, 0),
+        );
+    }
+
+    function unrealized(sim: SimState, mode: TradingMode, scope: TradeScope): number {
+        return round(
+            sim.open
+                .filter((trade) => trade.mode === mode && scope(trade))
+                .reduce((total, trade) => total + (trade.unrealized_pnl ?? 0), 0),
+        );
+    }
+
+    function activeAccountId(sim: SimState): number | null {
+        return sim.accounts.find((account) => account.is_active)?.id ?? null;
+    }
+
+    // Account-scoped routes only see the trades of the account in `account_id`, or every trade without one.
+    function accountScope(sim: SimState, query: Record<string, string>): TradeScope {
+        if (query.account_id === undefined) {
+            return () => true;
+        }
+        const account = findAccount(sim, query.account_id);
+        return (trade) => trade.accountId === account.id;
+    }
+
+    function stopSimBot(sim: SimState, reason: string, code: string, at: number): void {
+        sim.bot = { ...sim.bot, running: false, stop_reason: reason, stop_code: code };
+        sim.scheduledRun = false;
+        const notification = notify(sim, at, "bot_stopped", "Bot stopped", reason);
+        notification.stop_code = code;
+    }
+
+    function recordLatency(sim: SimState): void {
+        const samples: Record<string, number> = {
+            order_send: 40 + sim.random() * 60 + (sim.random() < 0.05 ? 300 : 0),
+            order_fill: 80 + sim.random() * 120,
+            price_feed: 5 + sim.random() * 15,
+            api_request: 20 + sim.random() * 40,
+        };
+        for (const [metric, value] of Object.entries(samples)) {
+            sim.latency[metric] = [...(sim.latency[metric] ?? []), round(value, 1)].slice(-MAX_LATENCY_SAMPLES);
+        }
+    }
+
+    function sessionTradeCount(sim: SimState, symbol: string, startedAt: number): number {
+        return [...sim.open, ...sim.closed].filter(
+            (trade) => trade.symbol === symbol && new Date(trade.opened_at).getTime() >= startedAt,
+        ).length;
+    }
+
+    function followSchedule(sim: SimState, at: number): void {
+        const schedule = sim.session.schedule;
+        const session = schedule ? activeSession(schedule, new Date(at)) : null;
+        if (sim.bot.running) {
+            if (sim.scheduledRun && !session) {
+                stopSimBot(sim, "Scheduled session ended", "schedule_ended", at);
+            }
+            return;
+        }
+        if (!session || !sim.accounts.some((account) => account.is_active)) {
+            return;
+        }
+        const startKey = session.start.toISOString();
+        if (startKey === sim.scheduledStartKey) {
+            return;
+        }
+        sim.scheduledStartKey = startKey;
+        sim.scheduledRun = true;
+        sim.bot = { running: true, mode: "live", started_at: iso(at), trades_opened_this_session: 0 };
+        const name = session.window.name || `${session.window.start}-${session.window.end}`;
+        notify(sim, at, "bot_started", "Bot started", `Scheduled session ${name} opened`);
+    }
+
+    function tick(sim: SimState, at: number): void {
+        const symbols = new Set([...sim.trading.assets, ...sim.open.map((trade) => trade.symbol)]);
+        for (const symbol of symbols) {
+            const price = sim.prices[symbol] ?? 100;
+            sim.prices[symbol] = price * (1 + (sim.random() - 0.5) * 2 * PRICE_VOLATILITY);
+        }
+
+        for (const trade of [...sim.open]) {
+            const price = sim.prices[trade.symbol];
+            trade.ticksOpen += 1;
+            trade.current_price = round(price, 5);
+            trade.unrealized_pnl = tradePnl(trade, price);
+            const settings = resolveSymbolSettings(sim.trading, trade.symbol);
+            if (trade.unrealized_pnl >= settings.profit_threshold) {
+                closeSimTrade(sim, trade, "take_profit", at);
+            } else if (trade.unrealized_pnl <= settings.loss_threshold) {
+                closeSimTrade(sim, trade, "stop_loss", at);
+            } else if (trade.ticksOpen >= MAX_HOLD_TICKS) {
+                closeSimTrade(sim, trade, "time_exit", at);
+            }
+        }
+
+        followSchedule(sim, at);
+        if (!sim.bot.running) {
+            return;
+        }
+        recordLatency(sim);
+
+        const startedAt = sim.bot.started_at ? new Date(sim.bot.started_at).getTime() : at;
+        // The limits apply to the account the bot trades on.
+        const botAccountId = activeAccountId(sim);
+        const botScope: TradeScope = (trade) => trade.accountId === botAccountId;
+        const dayPnl = realizedToday(sim, at, sim.bot.mode, botScope) + unrealized(sim, sim.bot.mode, botScope);
+        // A scheduled run lasts as long as its window instead of the session duration.
+        if (!sim.scheduledRun && at - startedAt >= sim.session.duration_minutes * 60_000) {
+            stopSimBot(sim, "Session duration reached", "session_duration", at);
+        } else if (dayPnl >= sim.risk.daily_profit_target) {
+            stopSimBot(sim, "Daily profit target reached", "profit_target", at);
+        } else if (dayPnl <= -sim.risk.daily_loss_limit) {
+            notify(sim, at, "loss_limit_hit", "Daily loss limit hit", `Daily PnL ${dayPnl.toFixed(2)} reached the loss limit`);
+            stopSimBot(sim, "Daily loss limit reached", "loss_limit", at);
+        } else if (
+            sim.open.length < MAX_OPEN_TRADES &&
+            sim.bot.trades_opened_this_session < sim.trading.max_trades_per_session &&
+            sim.random() < OPEN_PROBABILITY
+        ) {
+            const candidates = enabledAssets(sim.trading).filter(
+                (symbol) =>
+                    sessionTradeCount(sim, symbol, startedAt) <
+                    resolveSymbolSettings(sim.trading, symbol).max_trades_per_session,
+            );
+            if (!candidates.length) {
+                return;
+            }
+            const symbol = candidates[Math.floor(sim.random() * candidates.length)];
+            const settings = resolveSymbolSettings(sim.trading, symbol);
+            const direction = sim.random() < 0.5 ? 1 : -1;
+            const trade: SimTrade = {
+                id: sim.nextTradeId++,
+                symbol,
+                side: direction === 1 ? "buy" : "sell",
+                quantity: settings.quantity,
+                entry_price: round(sim.prices[symbol] ?? 100, 5),
+                opened_at: iso(at),
+                mode: sim.bot.mode,
+                current_price: round(sim.prices[symbol] ?? 100, 5),
+                unrealized_pnl: 0,
+                direction,
+                ticksOpen: 0,
+                accountId: botAccountId,
+            };
+            sim.open.push(trade);
+            sim.bot = { ...sim.bot, trades_opened_this_session: sim.bot.trades_opened_this_session + 1 };
+            notify(
+                sim,
+                at,
+                "trade_opened",
+                trade.mode === "paper" ? "Paper trade opened" : "Trade opened",
+                `${trade.side.toUpperCase()} ${trade.quantity} ${symbol}`,
+                trade.id,
+            );
+        }
+    }
+
+    function advance(sim: SimState, at: number): void {
+        while (sim.lastTick + tickMs <= at) {
+            sim.lastTick += tickMs;
+            tick(sim, sim.lastTick);
+        }
+    }
+
+    function publicTrade(trade: SimTrade): OpenTradeItem {
+        const { direction: _direction, ticksOpen: _ticksOpen, accountId: _accountId, ...rest } = trade;
+        return { ...rest };
+    }
+
+    function publicClosedTrade(trade: SimClosedTrade): ClosedTradeItem {
+        const { accountId: _accountId, ...rest } = trade;
+        return rest;
+    }
+
+    function issueSession(sim: SimState, email: string): AuthSession {
+        sim.tokenCounter += 1;
+        const accessToken = `mock-access-${sim.tokenCounter}`;
+        const refreshToken = `mock-refresh-${sim.tokenCounter}`;
+        const expiresAt = now() + accessTokenTtlMs;
+        sim.accessTokens[accessToken] = expiresAt;
+        sim.refreshTokens[refreshToken] = email;
+        return {
+            user_id: email.toLowerCase().replace(/[^a-z0-9]/g, "-") || "demo-user",
+            email,
+            access_token: accessToken,
+            refresh_token: refreshToken,
+            expires_at: iso(expiresAt),
+        };
+    }
+
+    function findAccount(sim: SimState, id: string): MT5AccountItem {
+        const account = sim.accounts.find((item) => item.id === Number(id));
+        if (!account) {
+            throw new MockHttpError(404, `MT5 account ${id} not found`);
+        }
+        return account;
+    }
+
+    function filteredHistory(sim: SimState, query: Record<string, string>): SimClosedTrade[] {
+        const symbol = query.symbol?.toUpperCase();
+        const mode = queryMode(query);
+        const scope = accountScope(sim, query);
+        const items = sim.closed.filter((trade) => {
+            const day = utcDay(trade.closed_at);
+            return (
+                trade.mode === mode &&
+                scope(trade) &&
+                (!symbol || trade.symbol.includes(symbol)) &&
+                (!query.side || trade.side === query.side) &&
+                (!query.close_reason || trade.close_reason === query.close_reason) &&
+                (!query.from || day >= query.from) &&
+                (!query.to || day <= query.to)
+            );
+        });
+        const key = query.sort === "pnl" ? "pnl" : "closed_at";
+        const direction = query.order === "asc" ? 1 : -1;
+        return items.sort((a, b) => {
+            const left = key === "pnl" ? a.pnl : new Date(a.closed_at).getTime();
+            const right = key === "pnl" ? b.pnl : new Date(b.closed_at).getTime();
+            return (left - right) * direction || (a.id - b.id) * direction;
+        });
+    }
+
+    const routes: Route[] = [
+        {
+            method: "POST",
+            pattern: /^\/auth\/login$/,
+            auth: false,
+            handle: (sim, { body }) => {
+                const fields = bodyFields(body);
+                const email = stringField(fields, "email");
+                if (!email || !stringField(fields, "password")) {
+                    throw new MockHttpError(422, "Email and password are required");
+                }
+                return issueSession(sim, email);
+            },
+        },
+        {
+            method: "POST",
+            pattern: /^\/auth\/refresh$/,
+            auth: false,
+            handle: (sim, { body }) => {
+                const refreshToken = stringField(bodyFields(body), "refresh_token");
+                const email = sim.refreshTokens[refreshToken];
+                if (email === undefined) {
+                    throw new MockHttpError(401, "Invalid refresh token");
+                }
+                // Refresh tokens are single use: the new session comes with a new one.
+                delete sim.refreshTokens[refreshToken];
+                return issueSession(sim, email);
+            },
+        },
+        { method: "POST", pattern: /^\/auth\/logout$/, auth: true, handle: () => undefined },
+        { method: "GET", pattern: /^\/health$/, auth: false, handle: () => ({ ok: true }) },
+        {
+            method: "GET",
+            pattern: /^\/license\/status$/,
+            auth: true,
+            handle: (sim, { query }): LicenseStatusResponse => ({
+                user_id: query.user_id,
+                has_license: Boolean(sim.licenseKey),
+                valid: Boolean(sim.licenseKey),
+                status: sim.licenseKey ? "active" : "trial",
+                message: sim.licenseKey ? "License active" : "Running on the demo backend",
+                license_key: sim.licenseKey ?? undefined,
+            }),
+        },
+        {
+            method: "POST",
+            pattern: /^\/license\/activate$/,
+            auth: true,
+            handle: (sim, { body }) => {
+                sim.licenseKey = stringField(bodyFields(body), "license_key");
+                return undefined;
+            },
+        },
+        {
+            method: "GET",
+            pattern: /^\/summary$/,
+            auth: true,
+            handle: (sim, { query, at }): DashboardSummaryResponse => {
+                const scope = accountScope(sim, query);
+                // The broker account only ever sees live trades.
+                const live = sim.closed.filter((trade) => trade.mode === "live" && scope(trade));
+                const realized = round(live.reduce((total, trade) => total + trade.pnl, 0));
+                const floating = unrealized(sim, "live", scope);
+                const margin = sim.open
+                    .filter((trade) => trade.mode === "live" && scope(trade))
+                    .reduce((total, trade) => total + trade.quantity * 10, 0);
+                return {
+                    user_id: query.user_id,
+                    balance: round(sim.startingBalance + realized, 2),
+                    equity: round(sim.startingBalance + realized + floating, 2),
+                    margin: round(margin, 2),
+                    daily_realized_pnl: realizedToday(sim, at, "live", scope),
+                    daily_unrealized_pnl: floating,
+                    bot_running: sim.bot.running,
+                };
+            },
+        },
+        {
+            method: "GET",
+            pattern: /^\/notifications$/,
+            auth: true,
+            handle: (sim, { query }) => {
+                const items = sim.notifications.filter(
+                    (item) =>
+                        (!query.event_type || item.event_type === query.event_type) &&
+                        (query.unread_only !== "true" || !item.read),
+                );
+                const offset = Number(query.cursor ?? 0);
+                const limit = Number(query.limit ?? 20);
+                return {
+                    items: items.slice(offset, offset + limit),
+                    next_cursor: offset + limit < items.length ? String(offset + limit) : null,
+                    unread_count: sim.notifications.filter((item) => !item.read).length,
+                };
+            },
+        },
+        {
+            method: "POST",
+            pattern: /^\/notifications\/read$/,
+            auth: true,
+            handle: (sim, { body }) => {
+                const { ids: requested } = bodyFields(body);
+                const ids = Array.isArray(requested) ? requested.map(Number) : null;
+                sim.notifications = sim.notifications.map((item) =>
+                    !ids || ids.includes(item.id) ? { ...item, read: true } : item,
+                );
+                return { unread_count: sim.notifications.filter((item) => !item.read).length };
+            },
+        },
+        {
+            method: "GET",
+            pattern: /^\/notifications\/(\d+)$/,
+            auth: true,
+            handle: (sim, { params }) => {
+                const notification = sim.notifications.find((item) => item.id === Number(params[0]));
+                if (!notification) {
+                    throw new MockHttpError(404, `Notification ${params[0]} not found`);
+                }
+                return notification;
+            },
+        },
+        {
+            method: "DELETE",
+            pattern: /^\/notifications\/(\d+)$/,
+            auth: true,
+            handle: (sim, { params }) => {
+                if (!sim.notifications.some((item) => item.id === Number(params[0]))) {
+                    throw new MockHttpError(404, `Notification ${params[0]} not found`);
+                }
+                sim.notifications = sim.notifications.filter((item) => item.id !== Number(params[0]));
+                return undefined;
+            },
+        },
+        {
+            method: "GET",
+            pattern: /^\/bot\/status$/,
+            auth: true,
+            handle: (sim, { query }): BotStatusResponse => ({ user_id: query.user_id, ...sim.bot }),
+        },
+        {
+            method: "POST",
+            pattern: /^\/bot\/start$/,
+            auth: true,
+            handle: (sim, { query, body, at }): BotStatusResponse => {
+                const mode = bodyFields(body).mode ?? "live";
+                if (mode !== "live" && mode !== "paper") {
+                    throw new MockHttpError(422, `mode must be "live" or "paper", not ${JSON.stringify(mode)}`);
+                }
+                if (sim.bot.running && sim.bot.mode !== mode) {
+                    throw new MockHttpError(409, `The bot is already running in ${sim.bot.mode} mode. Stop it first`);
+                }
+                // Paper runs price against the feed without placing orders, so they need no broker account.
+                if (mode === "live" && !sim.accounts.some((account) => account.is_active)) {
+                    throw new MockHttpError(409, "Connect an MT5 account before starting the bot");
+                }
+                if (!sim.bot.running) {
+                    sim.bot = { running: true, mode, started_at: iso(at), trades_opened_this_session: 0 };
+                    sim.scheduledRun = false;
+                    notify(
+                        sim,
+                        at,
+                        "bot_started",
+                        mode === "paper" ? "Paper trading started" : "Bot started",
+                        mode === "paper" ? "Orders are simulated and never sent" : "The demo bot is now trading",
+                    );
+                }
+                return { user_id: query.user_id, ...sim.bot };
+            },
+        },
+        {
+            method: "POST",
+            pattern: /^\/bot\/stop$/,
+            auth: true,
+            handle: (sim, { query, at }): BotStatusResponse => {
+                if (sim.bot.running) {
+                    stopSimBot(sim, "Stopped by user", "user", at);
+                }
+                return { user_id: query.user_id, ...sim.bot };
+            },
+        },
+        {
+            method: "POST",
+            pattern: /^\/bot\/kill-switch$/,
+            auth: true,
+            handle: (sim, { query, at }): KillSwitchResponse => {
+                const scope = accountScope(sim, query);
+                if (sim.bot.running) {
+                    stopSimBot(sim, "Kill switch", "kill_switch", at);
+                }
+                const closed = sim.open.filter(scope).map((trade) => closeSimTrade(sim, trade, "kill_switch", at));
+                const pnl = closed.reduce((sum, trade) => sum + trade.pnl, 0);
+                const notification = notify(
+                    sim,
+                    at,
+                    "kill_switch",
+                    "Kill switch used",
+                    `Bot stopped. Closed ${closed.length} position(s), PnL ${pnl.toFixed(2)}`,
+                );
+                return { bot: { user_id: query.user_id, ...sim.bot }, closed, failed: [], notification };
+            },
+        },
+        {
+            method: "GET",
+            pattern: /^\/pnl\/daily$/,
+            auth: true,
+            handle: (sim, { query, at }): DailyPnlResponse => {
+                const mode = queryMode(query);
+                const scope = accountScope(sim, query);
+                const realized = realizedToday(sim, at, mode, scope);
+                const floating = unrealized(sim, mode, scope);
+                return {
+                    user_id: query.user_id,
+                    mode,
+                    realized_pnl: realized,
+                    unrealized_pnl: floating,
+                    total_pnl: round(realized + floating),
+                };
+            },
+        },
+        {
+            method: "GET",
+            pattern: /^\/pnl\/daily\/range$/,
+            auth: true,
+            handle: (sim, { query }): DailyPnlDay[] => {
+                const mode = queryMode(query);
+                const scope = accountScope(sim, query);
+                const days = new Map<string, DailyPnlDay>();
+                for (const trade of sim.closed) {
+                    const date = utcDay(trade.closed_at);
+                    const inRange = (!query.from || date >= query.from) && (!query.to || date <= query.to);
+                    if (trade.mode !== mode || !scope(trade) || !inRange) {
+                        continue;
+                    }
+                    const day = days.get(date) ?? { date, realized_pnl: 0, trades: 0 };
+                    days.set(date, { date, realized_pnl: round(day.realized_pnl + trade.pnl), trades: day.trades + 1 });
+                }
+                return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+            },
+        },
+        {
+            method: "GET",
+            pattern: /^\/trades\/open$/,
+            auth: true,
+            handle: (sim, { query }) => sim.open.filter(accountScope(sim, query)).map(publicTrade),
+        },
+        {
+            method: "GET",
+            pattern: /^\/trades\/closed$/,
+            auth: true,
+            handle: (sim, { query }) =>
+                filteredHistory(sim, { account_id: query.account_id })
+                    .slice(0, Number(query.limit ?? 20))
+                    .map(publicClosedTrade),
+        },
+        {
+            method: "GET",
+            pattern: /^\/trades\/closed\/(\d+)$/,
+            auth: true,
+            handle: (sim, { params, query }) => {
+                const scope = accountScope(sim, query);
+                const trade = sim.closed.find((item) => item.id === Number(params[0]) && scope(item));
+                if (!trade) {
+                    throw new MockHttpError(404, `Closed trade ${params[0]} not found`);
+                }
+                return publicClosedTrade(trade);
+            },
+        },
+        {
+            method: "GET",
+            pattern: /^\/trades\/history$/,
+            auth: true,
+            handle: (sim, { query }) => {
+                const items = filteredHistory(sim, query);
+                const offset = Number(query.cursor ?? 0);
+                const limit = Number(query.limit ?? 25);
+                const page = items.slice(offset, offset + limit).map(publicClosedTrade);
+                return { items: page, next_cursor: offset + limit < items.length ? String(offset + limit) : null };
+            },
+        },
+        {
+            method: "POST",
+            pattern: /^\/trades\/close-all$/,
+            auth: true,
+            handle: (sim, { query, at }) => {
+                const trades = sim.open.filter(accountScope(sim, query));
+                return { closed: trades.map((trade) => closeSimTrade(sim, trade, "manual_close", at)), failed: [] };
+            },
+        },
+        {
+            method: "POST",
+            pattern: /^\/trades\/(\d+)\/close$/,
+            auth: true,
+            handle: (sim, { params, query, at }) => {
+                const scope = accountScope(sim, query);
+                const trade = sim.open.find((item) => item.id === Number(params[0]) && scope(item));
+                if (!trade) {
+                    throw new MockHttpError(404, `Trade ${params[0]} is not open`);
+                }
+                return closeSimTrade(sim, trade, "manual_close", at);
+            },
+        },
+        {
+            method: "GET",
+            pattern: /^\/metrics\/latency$/,
+            auth: true,
+            handle: (sim): LatencyMetricsResponse =>
+                Object.fromEntries(
+                    Object.entries(sim.latency).map(([metric, values]) => [
+                        metric,
+                        {
+                            count: values.length,
+                            p50: percentile(values, 50),
+                            p95: percentile(values, 95),
+                            p99: percentile(values, 99),
+                        },
+                    ]),
+                ),
+        },
+        {
+            method: "POST",
+            pattern: /^\/mt5\/connect-test$/,
+            auth: true,
+            handle: (_sim, { body }): MT5ConnectTestResponse => {
+                const fields = bodyFields(body);
+                const valid =
+                    /^\d+$/.test(stringField(fields, "login")) &&
+                    Boolean(stringField(fields, "password")) &&
+                    Boolean(stringField(fields, "server"));
+                return {
+                    status: valid ? "validated" : "failed",
+                    provider: "mock",
+                    latency_ms: 42,
+                    message: valid ? "Demo credentials accepted" : "Login must be numeric and password/server are required",
+                };
+            },
+        },
+        {
+            method: "PUT",
+            pattern: /^\/mt5\/account$/,
+            auth: true,
+            handle: (sim, { body, at }) => {
+                const fields = bodyFields(body);
+                const payload = {
+                    login: stringField(fields, "login"),
+                    server: stringField(fields, "server"),
+                    broker: stringField(fields, "broker"),
+                    label: stringField(fields, "label"),
+                };
+                const existing = sim.accounts.find(
+                    (account) => account.login === payload.login && account.server === payload.server,
+                );
+                if (existing) {
+                    existing.broker = payload.broker;
+                    existing.label = payload.label || existing.label;
+                    return undefined;
+                }
+                sim.accounts.push({
+                    id: sim.nextAccountId++,
+                    label: payload.label || `${payload.broker || "MT5"} ${payload.login}`,
+                    broker: payload.broker,
+                    login: payload.login,
+                    server: payload.server,
+                    is_active: sim.accounts.length === 0,
+                    created_at: iso(at),
+                });
+                return undefined;
+            },
+        },
+        {
+            method: "GET",
+            pattern: /^\/mt5\/accounts$/,
+            auth: true,
+            handle: (sim) => sim.accounts,
+        },
+        {
+            method: "PATCH",
+            pattern: /^\/mt5\/accounts\/(\d+)$/,
+            auth: true,
+            handle: (sim, { params, body }) => {
+                const account = findAccount(sim, params[0]);
+                account.label = stringField(bodyFields(body), "label").trim() || account.label;
+                return account;
+            },
+        },
+        {
+            method: "DELETE",
+            pattern: /^\/mt5\/accounts\/(\d+)$/,
+            auth: true,
+            handle: (sim, { params }) => {
+                const account = findAccount(sim, params[0]);
+                if (account.is_active && sim.bot.running) {
+                    throw new MockHttpError(409, "Stop the bot before deleting the active account");
+                }
+                sim.accounts = sim.accounts.filter((item) => item.id !== account.id);
+                if (account.is_active && sim.accounts.length) {
+                    sim.accounts[0].is_active = true;
+                }
+                return undefined;
+            },
+        },
+        {
+            method: "POST",
+            pattern: /^\/mt5\/accounts\/(\d+)\/activate$/,
+            auth: true,
+            handle: (sim, { params }) => {
+                const account = findAccount(sim, params[0]);
+                if (sim.bot.running && !account.is_active) {
+                    throw new MockHttpError(409, "Stop the bot before switching accounts");
+                }
+                for (const item of sim.accounts) {
+                    item.is_active = item.id === account.id;
+                }
+                return account;
+            },
+        },
+        {
+            method: "PUT",
+            pattern: /^\/config$/,
+            auth: true,
+            handle: (sim, { body }) => {
+                const { trading, risk, session } = bodyFields(body) as ConfigurationRequest;
+                // Everything is checked before anything is applied, so a rejected save changes nothing.
+                assertNumericFields(trading, "trading", [
+                    "quantity",
+                    "max_trades_per_session",
+                    "profit_threshold",
+                    "loss_threshold",
+                ]);
+                assertNumericFields(risk, "risk", ["daily_profit_target", "daily_loss_limit", "allocated_capital"]);
+                assertNumericFields(session, "session", ["duration_minutes"]);
+                assertSchedule(session?.schedule);
+                if (trading) {
+                    sim.trading = trading;
+                }
+                if (risk) {
+                    sim.risk = risk;
+                }
+                if (session) {
+                    sim.session = session;
+                }
+                return undefined;
+            },
+        },
+        {
+            method: "GET",
+            pattern: /^\/trading\/config$/,
+            auth: true,
+            handle: (sim, { query }): TradingConfigRequest => ({ user_id: query.user_id, ...sim.trading }),
+        },
+        {
+            method: "GET",
+            pattern: /^\/risk\/config$/,
+            auth: true,
+            handle: (sim, { query }): RiskConfigRequest => ({ user_id: query.user_id, ...sim.risk }),
+        },
+        {
+            method: "GET",
+            pattern: /^\/session\/config$/,
+            auth: true,
+            handle: (sim, { query }): SessionConfigRequest => ({ user_id: query.user_id, ...sim.session }),
+        },
+    ];
+
+    function parseUrl(url: string): { path: string; query: Record<string, string> } {
+        const withoutBase = url.slice(MOCK_BASE_URL.length);
+        const [path, search = ""] = withoutBase.split("?");
+        const query: Record<string, string> = {};
+        for (const pair of search.split("&").filter(Boolean)) {
+            const [key, value = ""] = pair.split("=");
+            query[decodeURIComponent(key)] = decodeURIComponent(value);
+        }
+        return { path: path || "/", query };
+    }
+
+    function respond(status: number, body: unknown): Response {
+        return new Response(body === undefined ? null : JSON.stringify(body), {
+            status,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+
+    function wait(signal?: AbortSignal | null): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new Error("Aborted"));
+                return;
+            }
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new Error("Aborted"));
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            }, responseDelayMs);
+            signal?.addEventListener("abort", onAbort, { once: true });
+        });
+    }
+
+    const transport: Transport = async (url, init) => {
+        if (!isMockBaseUrl(url)) {
+            return fetch(url, init);
+        }
+        if (responseDelayMs > 0) {
+            await wait(init.signal);
+        }
+
+        const { path, query } = parseUrl(url);
+        const method = (init.method ?? "GET").toUpperCase();
+        const route = routes.find((candidate) => candidate.method === method && candidate.pattern.test(path));
+        if (!route) {
+            return respond(404, { detail: `Mock backend has no route for ${method} ${path}` });
+        }
+        const at = now();
+        const headers = (init.headers ?? {}) as Record<string, string>;
+        if (route.auth) {
+            const expiresAt = state.accessTokens[String(headers.Authorization ?? "").replace(/^Bearer /, "")];
+            if (expiresAt === undefined) {
+                return respond(401, { detail: "Not authenticated" });
+            }
+            if (at >= expiresAt) {
+                return respond(401, { detail: "Access token expired" });
+            }
+        }
+
+        advance(state, at);
+        try {
+            const body = typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+            const params = path.match(route.pattern)?.slice(1) ?? [];
+            return respond(200, route.handle(state, { params, query, body, at }));
+        } catch (error) {
+            if (error instanceof MockHttpError) {
+                return respond(error.status, { detail: error.message });
+            }
+            return respond(500, { detail: error instanceof Error ? error.message : "Mock backend error" });
+        }
+    };
+
+    return {
+        transport,
+        reset: () => {
+            state = initialState();
+        },
+    };
+}
@@ -0,0 +1,42 @@
+import { MT5AccountItem, MT5ConnectTestResponse, connectMT5, getMT5Accounts, saveMT5Account } from "./api";
+import { loadMT5Password, saveMT5Password } from "./credentials";
+import type { PersistedMT5Account } from "./storage";
+
+// Validates the credentials against the broker before saving them, then returns the refreshed
+// account list. A rejected login is thrown as an Error carrying the backend's message. The password
+// is kept in secure storage for later connection tests; callers should drop their copy once this resolves.
+export async function connectAndSaveMT5Account(
+    userId: string,
+    form: PersistedMT5Account,
+    password: string,
+    label: string,
+    baseUrl: string,
+): Promise<MT5AccountItem[]> {
+    const validation = await connectMT5({ login: form.login.trim(), password, server: form.server.trim() }, baseUrl);
+    if (validation.status === "failed") {
+        throw new Error(validation.message);
+    }
+    await saveMT5Account(
+        {
+            user_id: userId,
+            broker: form.broker.trim(),
+            label: label.trim() || undefined,
+            login: form.login.trim(),
+            password,
+            server: form.server.trim(),
+        },
+        baseUrl,
+    );
+    await saveMT5Password(form.login, form.server, password);
+    return getMT5Accounts(userId, baseUrl);
+}
+
+// Re-checks a saved account with the password from secure storage. Throws when this device has no
+// password for it, e.g. because it was added on another device.
+export async function testSavedMT5Account(account: MT5AccountItem, baseUrl: string): Promise<MT5ConnectTestResponse> {
+    const password = await loadMT5Password(account.login, account.server);
+    if (!password) {
+        throw new Error(`No password for ${account.label} is stored on this device. Add the account again to test it.`);
+    }
+    return connectMT5({ login: account.login, password, server: account.server }, baseUrl);
+}
@@ -0,0 +1,142 @@
+import { createBottomTabNavigator } from "@react-navigation/bottom-tabs";
+import { DarkTheme, NavigationContainer, Theme } from "@react-navigation/native";
+import { createNativeStackNavigator } from "@react-navigation/native-stack";
+import { ActivityIndicator, Text, View } from "react-native";
+
+import { KillSwitchButton } from "../components/KillSwitchButton";
+import { LockScreen } from "../components/LockScreen";
+import { ReauthPrompt } from "../components/ReauthPrompt";
+import { AccountsScreen } from "../screens/AccountsScreen";
+import { AlertsScreen } from "../screens/AlertsScreen";
+import { AnalyticsScreen } from "../screens/AnalyticsScreen";
+import { ConfigureScreen } from "../screens/ConfigureScreen";
+import { ConnectScreen } from "../screens/ConnectScreen";
+import { DiagnosticsScreen } from "../screens/DiagnosticsScreen";
+import { ExportScreen } from "../screens/ExportScreen";
+import { HomeScreen } from "../screens/HomeScreen";
+import { KillSwitchScreen } from "../screens/KillSwitchScreen";
+import { LoginScreen } from "../screens/LoginScreen";
+import { NotificationDetailScreen } from "../screens/NotificationDetailScreen";
+import { NotificationsScreen } from "../screens/NotificationsScreen";
+import { OnboardingScreen } from "../screens/OnboardingScreen";
+import { PnlCalendarScreen } from "../screens/PnlCalendarScreen";
+import { PositionsScreen } from "../screens/PositionsScreen";
+import { SecurityScreen } from "../screens/SecurityScreen";
+import { SettingsScreen } from "../screens/SettingsScreen";
+import { TradeDetailScreen } from "../screens/TradeDetailScreen";
+import { TradesScreen } from "../screens/TradesScreen";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { linking } from "./linking";
+import { MainTabParamList, RootStackParamList } from "./types";
+
+const Stack = createNativeStackNavigator<RootStackParamList>();
+const Tab = createBottomTabNavigator<MainTabParamList>();
+
+const theme: Theme = {
+  ...DarkTheme,
+  colors: {
+    ...DarkTheme.colors,
+    primary: "#A78BFA",
+    background: "#05070B",
+    card: "#0B1020",
+    border: "#1F2937",
+    text: "#F9FAFB",
+  },
+};
+
+function MainTabs() {
+  const { unreadCount } = useAppStore();
+
+  return (
+    <Tab.Navigator
+      screenOptions={{
+        tabBarIcon: () => null,
+        tabBarIconStyle: { display: "none" },
+        tabBarLabelStyle: styles.tabLabel,
+        tabBarInactiveTintColor: "#9CA3AF",
+        // In the header of every tab so an emergency stop is never more than a tap away.
+        headerRight: () => <KillSwitchButton />,
+      }}
+    >
+      <Tab.Screen name="Home" component={HomeScreen} />
+      <Tab.Screen name="Trades" component={TradesScreen} />
+      <Tab.Screen name="Analytics" component={AnalyticsScreen} />
+      <Tab.Screen
+        name="Notifications"
+        component={NotificationsScreen}
+        options={{
+          // The tab bar hides icons, and the built-in badge is drawn on the icon, so the count sits by the label.
+          tabBarLabel: ({ color }) => (
+            <View style={styles.tabLabelRow}>
+              <Text style={[styles.tabLabel, { color }]}>Notifications</Text>
+              {unreadCount ? <Text style={styles.tabBadge}>{unreadCount > 99 ? "99+" : unreadCount}</Text> : null}
+            </View>
+          ),
+        }}
+      />
+      <Tab.Screen name="Settings" component={SettingsScreen} />
+    </Tab.Navigator>
+  );
+}
+
+// The screen set follows the session and setup progress, so signing in or finishing a setup step
+// swaps screens instead of pushing them, and deep links only resolve once their screen exists.
+export function RootNavigator() {
+  const { hydrated, session, progress, locked } = useAppStore();
+
+  if (!hydrated) {
+    return (
+      <View style={[styles.safeArea, styles.centerContainer]}>
+        <ActivityIndicator size="large" color="#A78BFA" />
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <NavigationContainer theme={theme} linking={linking}>
+        <Stack.Navigator>
+          {session === null ? (
+            <Stack.Screen name="Login" component={LoginScreen} options={{ headerShown: false }} />
+          ) : !progress.configured ? (
+            <Stack.Group screenOptions={{ headerShown: false }}>
+              {progress.mt5Connected ? (
+                <Stack.Screen name="Configure" component={ConfigureScreen} />
+              ) : (
+                <>
+                  {!progress.onboarded ? <Stack.Screen name="Onboarding" component={OnboardingScreen} /> : null}
+                  <Stack.Screen name="Connect" component={ConnectScreen} />
+                </>
+              )}
+            </Stack.Group>
+          ) : (
+            <>
+              <Stack.Screen name="Main" component={MainTabs} options={{ headerShown: false }} />
+              <Stack.Screen
+                name="Positions"
+                component={PositionsScreen}
+                options={{ title: "Open positions", headerRight: () => <KillSwitchButton /> }}
+              />
+              <Stack.Screen name="TradeDetail" component={TradeDetailScreen} options={{ title: "Trade" }} />
+              <Stack.Screen
+                name="NotificationDetail"
+                component={NotificationDetailScreen}
+                options={{ title: "Notification" }}
+              />
+              <Stack.Screen name="PnlCalendar" component={PnlCalendarScreen} options={{ title: "PnL calendar" }} />
+              <Stack.Screen name="Diagnostics" component={DiagnosticsScreen} options={{ title: "Latency" }} />
+              <Stack.Screen name="Accounts" component={AccountsScreen} options={{ title: "MT5 accounts" }} />
+              <Stack.Screen name="Alerts" component={AlertsScreen} options={{ title: "Device alerts" }} />
+              <Stack.Screen name="KillSwitch" component={KillSwitchScreen} options={{ title: "Kill switch" }} />
+              <Stack.Screen name="Security" component={SecurityScreen} options={{ title: "App lock" }} />
+              <Stack.Screen name="Export" component={ExportScreen} options={{ title: "Export trades" }} />
+            </>
+          )}
+        </Stack.Navigator>
+      </NavigationContainer>
+      {locked ? <LockScreen /> : null}
+      <ReauthPrompt />
+    </>
+  );
+}
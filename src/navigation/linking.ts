@@ -0,0 +1,58 @@
+import type { LinkingOptions } from "@react-navigation/native";
+import * as Linking from "expo-linking";
+import * as Notifications from "expo-notifications";
+
+import type { RootStackParamList } from "./types";
+
+// apexscalper://trades/42 opens a trade, apexscalper://notifications/7 a notification. Links only
+// resolve to screens that exist for the current session, so signed-out links land on the login screen.
+function notificationUrl(response: Notifications.NotificationResponse | null): string | null {
+    const url = response?.notification.request.content.data?.url;
+    return typeof url === "string" ? url : null;
+}
+
+export const linking: LinkingOptions<RootStackParamList> = {
+    prefixes: [Linking.createURL("/"), "apexscalper://"],
+    // Device alerts carry a deep link, so tapping one opens the same screen as the link would.
+    async getInitialURL() {
+        const url = await Linking.getInitialURL();
+        return url ?? notificationUrl(await Notifications.getLastNotificationResponseAsync());
+    },
+    subscribe(listener) {
+        const linkSubscription = Linking.addEventListener("url", ({ url }) => listener(url));
+        const alertSubscription = Notifications.addNotificationResponseReceivedListener((response) => {
+            const url = notificationUrl(response);
+            if (url) {
+                listener(url);
+            }
+        });
+        return () => {
+            linkSubscription.remove();
+            alertSubscription.remove();
+        };
+    },
+    config: {
+        screens: {
+            Login: "login",
+            Main: {
+                screens: {
+                    Home: "home",
+                    Trades: "trades",
+                    Analytics: "analytics",
+                    Notifications: "notifications",
+                    Settings: "settings",
+                },
+            },
+            Positions: "positions",
+            TradeDetail: { path: "trades/:tradeId", parse: { tradeId: Number } },
+            NotificationDetail: { path: "notifications/:notificationId", parse: { notificationId: Number } },
+            PnlCalendar: "pnl",
+            Diagnostics: "diagnostics",
+            Accounts: "accounts",
+            Alerts: "alerts",
+            KillSwitch: "kill-switch",
+            Security: "security",
+            Export: "export",
+        },
+    },
+};
@@ -0,0 +1,38 @@
+import type { BottomTabNavigationProp } from "@react-navigation/bottom-tabs";
+import type { CompositeNavigationProp, NavigatorScreenParams, RouteProp } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+
+import type { TradingMode } from "../api";
+
+export type MainTabParamList = {
+    Home: undefined;
+    Trades: undefined;
+    Analytics: undefined;
+    Notifications: undefined;
+    Settings: undefined;
+};
+
+export type RootStackParamList = {
+    Login: undefined;
+    Onboarding: undefined;
+    Connect: undefined;
+    Configure: undefined;
+    Main: NavigatorScreenParams<MainTabParamList> | undefined;
+    Positions: undefined;
+    TradeDetail: { tradeId: number };
+    NotificationDetail: { notificationId: number };
+    PnlCalendar: { mode?: TradingMode } | undefined;
+    Diagnostics: undefined;
+    Accounts: undefined;
+    Alerts: undefined;
+    KillSwitch: undefined;
+    Security: undefined;
+    Export: undefined;
+};
+
+export type RootNavigation = NativeStackNavigationProp<RootStackParamList>;
+
+// Tab screens can switch tabs and push the stack screens above the tab bar.
+export type TabNavigation = CompositeNavigationProp<BottomTabNavigationProp<MainTabParamList>, RootNavigation>;
+
+export type RootRoute<Name extends keyof RootStackParamList> = RouteProp<RootStackParamList, Name>;
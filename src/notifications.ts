@@ -0,0 +1,29 @@
+import type { NotificationItem } from "./api";
+
+export type NotificationTarget = { screen: "TradeDetail"; tradeId: number } | { screen: "Home" };
+
+export const NOTIFICATION_EVENT_TYPES: { value: string; label: string }[] = [
+    { value: "trade_opened", label: "Opened" },
+    { value: "trade_closed", label: "Closed" },
+    { value: "bot_started", label: "Started" },
+    { value: "bot_stopped", label: "Stopped" },
+    { value: "loss_limit_hit", label: "Loss limit" },
+    { value: "kill_switch", label: "Kill switch" },
+];
+
+const BOT_EVENT_TYPES = new Set(["bot_started", "bot_stopped", "loss_limit_hit"]);
+
+// Where tapping a notification should take the user; null keeps them on the notification itself.
+export function notificationTarget(notification: NotificationItem): NotificationTarget | null {
+    if (notification.trade_id !== undefined) {
+        return { screen: "TradeDetail", tradeId: notification.trade_id };
+    }
+    if (BOT_EVENT_TYPES.has(notification.event_type)) {
+        return { screen: "Home" };
+    }
+    return null;
+}
+
+export function eventTypeLabel(eventType: string): string {
+    return NOTIFICATION_EVENT_TYPES.find((item) => item.value === eventType)?.label ?? eventType.replace(/_/g, " ");
+}
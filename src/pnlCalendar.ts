@@ -0,0 +1,74 @@
+import type { DailyPnlDay } from "./api";
+
+export type CalendarMonth = {
+    year: number;
+    // 0-based, as in Date#getMonth.
+    month: number;
+};
+
+export type CalendarCell = {
+    date: string;
+    day: number;
+    pnl: DailyPnlDay | null;
+};
+
+function pad(value: number): string {
+    return String(value).padStart(2, "0");
+}
+
+export function formatDate(year: number, month: number, day: number): string {
+    return `${year}-${pad(month + 1)}-${pad(day)}`;
+}
+
+export function currentMonth(now: Date = new Date()): CalendarMonth {
+    return { year: now.getFullYear(), month: now.getMonth() };
+}
+
+export function shiftMonth({ year, month }: CalendarMonth, delta: number): CalendarMonth {
+    const shifted = new Date(year, month + delta, 1);
+    return { year: shifted.getFullYear(), month: shifted.getMonth() };
+}
+
+export function monthRange({ year, month }: CalendarMonth): { from: string; to: string } {
+    const lastDay = new Date(year, month + 1, 0).getDate();
+    return { from: formatDate(year, month, 1), to: formatDate(year, month, lastDay) };
+}
+
+export function monthLabel({ year, month }: CalendarMonth): string {
+    return new Date(year, month, 1).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+}
+
+// Weeks start on Monday; days outside the month are null so every row has seven cells.
+export function monthGrid(calendar: CalendarMonth, days: DailyPnlDay[]): (CalendarCell | null)[][] {
+    const byDate = new Map(days.map((day) => [day.date, day]));
+    const { year, month } = calendar;
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const leading = (new Date(year, month, 1).getDay() + 6) % 7;
+
+    const cells: (CalendarCell | null)[] = Array.from({ length: leading }, () => null);
+    for (let day = 1; day <= daysInMonth; day += 1) {
+        const date = formatDate(year, month, day);
+        cells.push({ date, day, pnl: byDate.get(date) ?? null });
+    }
+    while (cells.length % 7) {
+        cells.push(null);
+    }
+
+    const weeks: (CalendarCell | null)[][] = [];
+    for (let index = 0; index < cells.length; index += 7) {
+        weeks.push(cells.slice(index, index + 7));
+    }
+    return weeks;
+}
+
+// Heatmap shade for a day's PnL, scaled against the largest absolute day in view.
+export function heatColor(pnl: number, maxAbs: number): string {
+    if (!pnl || !maxAbs) {
+        return "#111827";
+    }
+    const intensity = Math.min(1, Math.abs(pnl) / maxAbs);
+    const alpha = Math.round((0.25 + intensity * 0.75) * 255)
+        .toString(16)
+        .padStart(2, "0");
+    return pnl > 0 ? `#22C55E${alpha}` : `#EF4444${alpha}`;
+}
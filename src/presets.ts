@@ -0,0 +1,117 @@
+import type { ConfigurationRequest } from "./api";
+import { ConfigForm, buildConfigRequests, formFromConfig } from "./configForm";
+import { Decoder, DecodeError, array, literal, number, object, string, withDefault } from "./decode";
+import { riskConfigFields, sessionConfigFields, tradingConfigFields } from "./schemas";
+import { validateConfigForm } from "./validation";
+
+// The three sections as they are sent to the backend, minus the user id, so a preset means the same
+// thing whoever imports it.
+export type PresetConfig = Required<Pick<ConfigurationRequest, "trading" | "risk" | "session">>;
+
+export type ConfigPreset = {
+    name: string;
+    saved_at: string;
+    config: PresetConfig;
+};
+
+export type PresetDocument = {
+    format: typeof PRESET_DOCUMENT_FORMAT;
+    version: number;
+    exported_at: string;
+    presets: ConfigPreset[];
+};
+
+export const PRESET_DOCUMENT_FORMAT = "apex-scalper/config-presets";
+// Bump when a change would make older apps misread a document; older documents must keep importing.
+export const PRESET_DOCUMENT_VERSION = 1;
+
+const configPreset: Decoder<ConfigPreset> = object({
+    name: string,
+    saved_at: withDefault(string, ""),
+    config: object({
+        trading: object(tradingConfigFields),
+        risk: object(riskConfigFields),
+        session: object(sessionConfigFields),
+    }),
+});
+
+const presetDocument: Decoder<PresetDocument> = object({
+    format: literal(PRESET_DOCUMENT_FORMAT),
+    version: number,
+    exported_at: withDefault(string, ""),
+    presets: array(configPreset),
+});
+
+export function presetFromForm(name: string, form: ConfigForm, at: Date = new Date()): ConfigPreset {
+    const { trading, risk, session } = buildConfigRequests("", form);
+    const { user_id: _tradingUser, ...tradingConfig } = trading;
+    const { user_id: _riskUser, ...riskConfig } = risk;
+    const { user_id: _sessionUser, ...sessionConfig } = session;
+    return {
+        name: name.trim(),
+        saved_at: at.toISOString(),
+        config: { trading: tradingConfig, risk: riskConfig, session: sessionConfig },
+    };
+}
+
+export function formFromPreset(preset: ConfigPreset): ConfigForm {
+    const { trading, risk, session } = preset.config;
+    return formFromConfig({ user_id: "", ...trading }, { user_id: "", ...risk }, { user_id: "", ...session });
+}
+
+// Replaces presets with the same name (ignoring case) and keeps the list sorted by name.
+export function mergePresets(current: ConfigPreset[], incoming: ConfigPreset[]): ConfigPreset[] {
+    const incomingNames = new Set(incoming.map((preset) => preset.name.toLowerCase()));
+    return [...current.filter((preset) => !incomingNames.has(preset.name.toLowerCase())), ...incoming].sort((a, b) =>
+        a.name.localeCompare(b.name),
+    );
+}
+
+export function exportPresets(presets: ConfigPreset[], at: Date = new Date()): string {
+    const document: PresetDocument = {
+        format: PRESET_DOCUMENT_FORMAT,
+        version: PRESET_DOCUMENT_VERSION,
+        exported_at: at.toISOString(),
+        presets,
+    };
+    return JSON.stringify(document, null, 2);
+}
+
+// Parses an exported document and checks every preset with the same rules as the configure form, so an
+// import can never put values into the form that could not have been saved from it. Throws an Error
+// naming every problem found.
+export function parsePresetDocument(text: string): ConfigPreset[] {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error("This is not a JSON document");
+    }
+
+    let document: PresetDocument;
+    try {
+        document = presetDocument(raw, "");
+    } catch (error) {
+        if (error instanceof DecodeError) {
+            throw new Error(`This is not a valid presets document (${error.message})`);
+        }
+        throw error;
+    }
+    if (document.version > PRESET_DOCUMENT_VERSION) {
+        throw new Error(`These presets were exported by a newer version of Apex Scalper (format v${document.version})`);
+    }
+
+    const problems = document.presets.flatMap((preset, index) => {
+        const label = preset.name.trim() ? `"${preset.name.trim()}"` : `Preset ${index + 1}`;
+        if (!preset.name.trim()) {
+            return [`${label}: a name is required`];
+        }
+        return Object.entries(validateConfigForm(formFromPreset(preset))).map(
+            ([field, message]) => `${label} ${field}: ${message}`,
+        );
+    });
+    if (problems.length) {
+        throw new Error(problems.join("\n"));
+    }
+    return document.presets.map((preset) => ({ ...preset, name: preset.name.trim() }));
+}
@@ -0,0 +1,156 @@
+import type { ClosedTradeItem, DailyPnlDay, TradingMode } from "./api";
+
+export type ReportRange = {
+    // Inclusive UTC days, YYYY-MM-DD, the same days the backend groups daily PnL by.
+    from: string;
+    to: string;
+};
+
+export type TradeReport = {
+    range: ReportRange;
+    // Live and paper results are exported separately, never in the same file.
+    mode: TradingMode;
+    trades: ClosedTradeItem[];
+    dailyPnl: DailyPnlDay[];
+};
+
+export type ReportColumn<Row> = {
+    header: string;
+    value: (row: Row) => string | number;
+};
+
+export type ReportFileKind = "trades-csv" | "daily-pnl-csv" | "json";
+
+export type ReportFile = {
+    name: string;
+    mimeType: string;
+    // Uniform type identifier for the iOS share sheet.
+    uti: string;
+    content: string;
+};
+
+export const REPORT_DOCUMENT_FORMAT = "apex-scalper/trade-report";
+export const REPORT_DOCUMENT_VERSION = 1;
+
+// Column order and headers are part of the export format: spreadsheets and scripts built on an earlier
+// export must keep working, so only ever append columns.
+export const TRADE_COLUMNS: ReportColumn<ClosedTradeItem>[] = [
+    { header: "id", value: (trade) => trade.id },
+    { header: "symbol", value: (trade) => trade.symbol },
+    { header: "side", value: (trade) => trade.side },
+    { header: "quantity", value: (trade) => trade.quantity },
+    { header: "entry_price", value: (trade) => trade.entry_price },
+    { header: "close_price", value: (trade) => trade.close_price },
+    { header: "pnl", value: (trade) => trade.pnl },
+    { header: "close_reason", value: (trade) => trade.close_reason },
+    { header: "opened_at", value: (trade) => trade.opened_at },
+    { header: "closed_at", value: (trade) => trade.closed_at },
+    { header: "mode", value: (trade) => trade.mode },
+];
+
+export const DAILY_PNL_COLUMNS: ReportColumn<DailyPnlDay>[] = [
+    { header: "date", value: (day) => day.date },
+    { header: "realized_pnl", value: (day) => day.realized_pnl },
+    { header: "trades", value: (day) => day.trades },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isCalendarDate(value: string): boolean {
+    if (!DATE_PATTERN.test(value)) {
+        return false;
+    }
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+// Returns why the range cannot be exported, or null when it can.
+export function validateReportRange({ from, to }: ReportRange): string | null {
+    if (!isCalendarDate(from) || !isCalendarDate(to)) {
+        return "Dates must be real days in the YYYY-MM-DD format";
+    }
+    if (from > to) {
+        return "The start date must not be after the end date";
+    }
+    return null;
+}
+
+// RFC 4180 quoting. Text that a spreadsheet would run as a formula is prefixed with an apostrophe;
+// numbers are left alone so negative PnL stays numeric.
+function csvField(value: string | number): string {
+    if (typeof value === "number") {
+        return Number.isFinite(value) ? String(value) : "";
+    }
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<Row>(columns: ReportColumn<Row>[], rows: Row[]): string {
+    const lines = [
+        columns.map((column) => csvField(column.header)),
+        ...rows.map((row) => columns.map((column) => csvField(column.value(row)))),
+    ];
+    return `${lines.map((fields) => fields.join(",")).join("\r\n")}\r\n`;
+}
+
+function toRecord<Row>(columns: ReportColumn<Row>[], row: Row): Record<string, string | number> {
+    return Object.fromEntries(columns.map((column) => [column.header, column.value(row)]));
+}
+
+function round(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+}
+
+export function reportSummary({ trades }: TradeReport): { trades: number; realized_pnl: number; wins: number } {
+    return {
+        trades: trades.length,
+        realized_pnl: round(trades.reduce((total, trade) => total + trade.pnl, 0)),
+        wins: trades.filter((trade) => trade.pnl > 0).length,
+    };
+}
+
+// The JSON export carries both tables with the same fields as the CSV columns, plus the range and totals.
+export function reportToJson(report: TradeReport, at: Date = new Date()): string {
+    return JSON.stringify(
+        {
+            format: REPORT_DOCUMENT_FORMAT,
+            version: REPORT_DOCUMENT_VERSION,
+            exported_at: at.toISOString(),
+            range: report.range,
+            mode: report.mode,
+            summary: reportSummary(report),
+            trades: report.trades.map((trade) => toRecord(TRADE_COLUMNS, trade)),
+            daily_pnl: report.dailyPnl.map((day) => toRecord(DAILY_PNL_COLUMNS, day)),
+        },
+        null,
+        2,
+    );
+}
+
+export function buildReportFile(kind: ReportFileKind, report: TradeReport, at: Date = new Date()): ReportFile {
+    const prefix = report.mode === "paper" ? "apex-scalper-paper" : "apex-scalper";
+    const suffix = `${report.range.from}_${report.range.to}`;
+    switch (kind) {
+        case "trades-csv":
+            return {
+                name: `${prefix}-trades_${suffix}.csv`,
+                mimeType: "text/csv",
+                uti: "public.comma-separated-values-text",
+                content: toCsv(TRADE_COLUMNS, report.trades),
+            };
+        case "daily-pnl-csv":
+            return {
+                name: `${prefix}-daily-pnl_${suffix}.csv`,
+                mimeType: "text/csv",
+                uti: "public.comma-separated-values-text",
+                content: toCsv(DAILY_PNL_COLUMNS, report.dailyPnl),
+            };
+        case "json":
+            return {
+                name: `${prefix}-report_${suffix}.json`,
+                mimeType: "application/json",
+                uti: "public.json",
+                content: reportToJson(report, at),
+            };
+    }
+}
@@ -0,0 +1,35 @@
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+import { RequestOptions, TradingMode, getAllClosedTrades, getDailyPnlRange } from "./api";
+import type { ReportFile, ReportRange, TradeReport } from "./reportExport";
+
+// Every closed trade in the range, oldest first, plus the daily totals for the same days.
+export async function fetchTradeReport(
+    userId: string,
+    range: ReportRange,
+    mode: TradingMode,
+    baseUrl: string,
+    options: RequestOptions = {},
+): Promise<TradeReport> {
+    const trades = await getAllClosedTrades(
+        userId,
+        { from: range.from, to: range.to, sort: "closed_at", order: "asc", mode },
+        baseUrl,
+        options,
+    );
+    const dailyPnl = await getDailyPnlRange(userId, range.from, range.to, mode, baseUrl, options);
+    return { range, mode, trades, dailyPnl };
+}
+
+// Writes the file to the cache directory, replacing an earlier export of the same range, and opens the
+// share sheet on it. The cache is cleared by the system, so nothing is kept around after sharing.
+export async function shareReportFile(report: ReportFile): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new Error("Sharing files is not available on this device");
+    }
+    const file = new File(Paths.cache, report.name);
+    file.create({ overwrite: true });
+    file.write(report.content);
+    await Sharing.shareAsync(file.uri, { mimeType: report.mimeType, UTI: report.uti, dialogTitle: report.name });
+}
@@ -0,0 +1,169 @@
+import type { SessionSchedule, TradingWindow } from "./api";
+
+export type ScheduledSession = {
+    window: TradingWindow;
+    start: Date;
+    end: Date;
+};
+
+type ZonedParts = {
+    year: number;
+    month: number;
+    day: number;
+    // ISO weekday, 1 = Monday.
+    weekday: number;
+    minutes: number;
+};
+
+// Indexed by ISO weekday - 1.
+export const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const CLOCK_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// How far ahead nextSession looks; far enough to cover a fortnight of blackout dates.
+const LOOKAHEAD_DAYS = 21;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "2-digit",
+            day: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+            second: "2-digit",
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        formatterFor(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export function deviceTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone ?? "UTC";
+}
+
+export function parseClockTime(text: string): number | null {
+    const match = CLOCK_PATTERN.exec(text.trim());
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+export function isDateString(text: string): boolean {
+    return DATE_PATTERN.test(text) && !Number.isNaN(Date.parse(`${text}T00:00:00Z`));
+}
+
+function wallClock(at: Date, timeZone: string): { utc: number; parts: ZonedParts } {
+    const values: Record<string, number> = {};
+    for (const part of formatterFor(timeZone).formatToParts(at)) {
+        if (part.type !== "literal") {
+            values[part.type] = Number(part.value);
+        }
+    }
+    const utc = Date.UTC(values.year, values.month - 1, values.day, values.hour, values.minute, values.second);
+    const weekday = new Date(Date.UTC(values.year, values.month - 1, values.day)).getUTCDay() || 7;
+    return {
+        utc,
+        parts: {
+            year: values.year,
+            month: values.month,
+            day: values.day,
+            weekday,
+            minutes: values.hour * 60 + values.minute,
+        },
+    };
+}
+
+function dateKey(year: number, month: number, day: number): string {
+    return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+// Converts a wall-clock time in the given zone to an instant. The zone offset is looked up twice so
+// times next to a DST change land on the right side of it.
+function zonedTime(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+    const target = Date.UTC(year, month - 1, day, 0, minutes);
+    let instant = target;
+    for (let pass = 0; pass < 2; pass += 1) {
+        const offset = wallClock(new Date(instant), timeZone).utc - Math.floor(instant / 1000) * 1000;
+        instant = target - offset;
+    }
+    return new Date(instant);
+}
+
+function sessionsOn(schedule: SessionSchedule, year: number, month: number, day: number): ScheduledSession[] {
+    const key = dateKey(year, month, day);
+    if (schedule.blackout_dates.includes(key)) {
+        return [];
+    }
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay() || 7;
+    const sessions: ScheduledSession[] = [];
+    for (const window of schedule.windows) {
+        const start = parseClockTime(window.start);
+        const end = parseClockTime(window.end);
+        if (start === null || end === null || end <= start || !window.days.includes(weekday)) {
+            continue;
+        }
+        sessions.push({
+            window,
+            start: zonedTime(year, month, day, start, schedule.timezone),
+            end: zonedTime(year, month, day, end, schedule.timezone),
+        });
+    }
+    return sessions.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// The window the bot should be trading in right now, if any.
+export function activeSession(schedule: SessionSchedule, at: Date): ScheduledSession | null {
+    const { parts } = wallClock(at, schedule.timezone);
+    return (
+        sessionsOn(schedule, parts.year, parts.month, parts.day).find(
+            (session) => session.start <= at && at < session.end,
+        ) ?? null
+    );
+}
+
+// The next window that has not opened yet, skipping blackout dates.
+export function nextSession(schedule: SessionSchedule, at: Date): ScheduledSession | null {
+    const { parts } = wallClock(at, schedule.timezone);
+    for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset += 1) {
+        const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + offset));
+        const upcoming = sessionsOn(schedule, date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()).find(
+            (session) => session.start > at,
+        );
+        if (upcoming) {
+            return upcoming;
+        }
+    }
+    return null;
+}
+
+export function formatCountdown(ms: number): string {
+    const totalMinutes = Math.max(0, Math.ceil(ms / 60_000));
+    const days = Math.floor(totalMinutes / 1440);
+    const hours = Math.floor((totalMinutes % 1440) / 60);
+    const minutes = totalMinutes % 60;
+    if (days) {
+        return `${days}d ${hours}h`;
+    }
+    return hours ? `${hours}h ${String(minutes).padStart(2, "0")}m` : `${minutes}m`;
+}
+
+export function formatDays(days: number[]): string {
+    const sorted = [...days].sort((a, b) => a - b);
+    if (sorted.join() === "1,2,3,4,5") {
+        return "Weekdays";
+    }
+    return sorted.length === 7 ? "Every day" : sorted.map((day) => WEEKDAY_LABELS[day - 1]).join(", ");
+}
@@ -0,0 +1,231 @@
+import type {
+    AuthSession,
+    BotStatusResponse,
+    CloseAllTradesResponse,
+    CloseTradeFailure,
+    ClosedTradeItem,
+    ClosedTradesPage,
+    DailyPnlDay,
+    DailyPnlResponse,
+    DashboardSummaryResponse,
+    HealthResponse,
+    KillSwitchResponse,
+    LatencyMetricStats,
+    LatencyMetricsResponse,
+    LicenseStatusResponse,
+    MarkNotificationsReadResponse,
+    MT5AccountItem,
+    MT5ConnectTestResponse,
+    NotificationItem,
+    NotificationsPage,
+    OpenTradeItem,
+    RiskConfigResponse,
+    SessionConfigResponse,
+    SessionSchedule,
+    SymbolOverride,
+    TradingConfigResponse,
+    TradingMode,
+    TradingWindow,
+} from "./api";
+import { Decoder, array, boolean, literal, nullable, number, object, optional, record, string, withDefault } from "./decode";
+
+const tradingMode: Decoder<TradingMode> = literal("live", "paper");
+
+export const healthResponse: Decoder<HealthResponse> = object({ ok: boolean });
+
+export const authSession: Decoder<AuthSession> = object({
+    user_id: string,
+    email: string,
+    access_token: string,
+    refresh_token: string,
+    expires_at: optional(string),
+});
+
+export const licenseStatusResponse: Decoder<LicenseStatusResponse> = object({
+    user_id: string,
+    has_license: boolean,
+    valid: boolean,
+    status: optional(string),
+    message: withDefault(string, ""),
+    license_key: optional(string),
+    expires_at: optional(string),
+});
+
+export const dashboardSummaryResponse: Decoder<DashboardSummaryResponse> = object({
+    user_id: string,
+    balance: number,
+    equity: number,
+    margin: number,
+    daily_realized_pnl: withDefault(number, 0),
+    daily_unrealized_pnl: withDefault(number, 0),
+    bot_running: boolean,
+});
+
+export const botStatusResponse: Decoder<BotStatusResponse> = object({
+    user_id: string,
+    running: boolean,
+    // Backends without paper trading only ever run live.
+    mode: withDefault(tradingMode, "live"),
+    started_at: optional(string),
+    trades_opened_this_session: withDefault(number, 0),
+    stop_reason: optional(string),
+    stop_code: optional(string),
+});
+
+export const dailyPnlResponse: Decoder<DailyPnlResponse> = object({
+    user_id: string,
+    mode: withDefault(tradingMode, "live"),
+    realized_pnl: number,
+    unrealized_pnl: number,
+    total_pnl: number,
+});
+
+export const dailyPnlDay: Decoder<DailyPnlDay> = object({
+    date: string,
+    realized_pnl: number,
+    trades: withDefault(number, 0),
+});
+
+export const openTradeItem: Decoder<OpenTradeItem> = object({
+    id: number,
+    symbol: string,
+    side: string,
+    quantity: number,
+    entry_price: number,
+    opened_at: string,
+    mode: withDefault(tradingMode, "live"),
+    current_price: optional(number),
+    unrealized_pnl: optional(number),
+});
+
+export const closedTradeItem: Decoder<ClosedTradeItem> = object({
+    id: number,
+    symbol: string,
+    side: string,
+    quantity: number,
+    entry_price: number,
+    close_price: number,
+    pnl: number,
+    close_reason: withDefault(string, "unknown"),
+    opened_at: string,
+    closed_at: string,
+    mode: withDefault(tradingMode, "live"),
+});
+
+export const closedTradesPage: Decoder<ClosedTradesPage> = object({
+    items: array(closedTradeItem),
+    next_cursor: nullable(string),
+});
+
+const closeTradeFailure: Decoder<CloseTradeFailure> = object({
+    trade_id: number,
+    detail: string,
+});
+
+export const closeAllTradesResponse: Decoder<CloseAllTradesResponse> = object({
+    closed: withDefault(array(closedTradeItem), []),
+    failed: withDefault(array(closeTradeFailure), []),
+});
+
+export const notificationItem: Decoder<NotificationItem> = object({
+    id: number,
+    event_type: string,
+    title: string,
+    message: withDefault(string, ""),
+    channel: withDefault(string, "in_app"),
+    created_at: string,
+    read: withDefault(boolean, false),
+    trade_id: optional(number),
+    stop_code: optional(string),
+});
+
+export const killSwitchResponse: Decoder<KillSwitchResponse> = object({
+    bot: botStatusResponse,
+    closed: withDefault(array(closedTradeItem), []),
+    failed: withDefault(array(closeTradeFailure), []),
+    notification: notificationItem,
+});
+
+export const notificationsPage: Decoder<NotificationsPage> = object({
+    items: array(notificationItem),
+    next_cursor: nullable(string),
+    unread_count: withDefault(number, 0),
+});
+
+export const markNotificationsReadResponse: Decoder<MarkNotificationsReadResponse> = object({ unread_count: number });
+
+const latencyMetricStats: Decoder<LatencyMetricStats> = object({
+    count: number,
+    p50: number,
+    p95: number,
+    p99: number,
+});
+
+export const latencyMetricsResponse: Decoder<LatencyMetricsResponse> = record(latencyMetricStats);
+
+export const mt5ConnectTestResponse: Decoder<MT5ConnectTestResponse> = object({
+    status: literal("validated", "failed", "provider_unavailable"),
+    provider: string,
+    latency_ms: withDefault(number, 0),
+    message: withDefault(string, ""),
+});
+
+export const mt5AccountItem: Decoder<MT5AccountItem> = object({
+    id: number,
+    label: withDefault(string, ""),
+    broker: optional(string),
+    login: string,
+    server: string,
+    is_active: withDefault(boolean, false),
+    created_at: optional(string),
+});
+
+const symbolOverride: Decoder<SymbolOverride> = object({
+    symbol: string,
+    enabled: withDefault(boolean, true),
+    quantity: optional(number),
+    profit_threshold: optional(number),
+    loss_threshold: optional(number),
+    max_trades_per_session: optional(number),
+});
+
+// Section shapes without the user id, shared with the preset decoders in presets.ts.
+export const tradingConfigFields = {
+    assets: array(string),
+    timeframe: literal("M1", "M5"),
+    max_trades_per_session: number,
+    quantity: number,
+    profit_threshold: number,
+    loss_threshold: number,
+    symbol_overrides: withDefault(array(symbolOverride), []),
+};
+
+export const tradingConfigResponse: Decoder<TradingConfigResponse> = object({ user_id: string, ...tradingConfigFields });
+
+export const riskConfigFields = {
+    daily_profit_target: number,
+    daily_loss_limit: number,
+    allocated_capital: number,
+};
+
+export const riskConfigResponse: Decoder<RiskConfigResponse> = object({ user_id: string, ...riskConfigFields });
+
+const tradingWindow: Decoder<TradingWindow> = object({
+    name: withDefault(string, ""),
+    start: string,
+    end: string,
+    days: array(number),
+});
+
+const sessionSchedule: Decoder<SessionSchedule> = object({
+    timezone: string,
+    windows: withDefault(array(tradingWindow), []),
+    blackout_dates: withDefault(array(string), []),
+});
+
+export const sessionConfigFields = {
+    duration_minutes: number,
+    schedule: optional(sessionSchedule),
+};
+
+export const sessionConfigResponse: Decoder<SessionConfigResponse> = object({ user_id: string, ...sessionConfigFields });
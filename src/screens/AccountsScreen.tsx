@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { FlatList, Pressable, Text, TextInput, View } from "react-native";
+
+import { MT5AccountItem, activateMT5Account, deleteMT5Account, getMT5Accounts, renameMT5Account } from "../api";
+import { confirm } from "../confirm";
+import { Feedback } from "../components/Feedback";
+import { MT5AccountFields } from "../components/MT5AccountFields";
+import { deleteMT5Password } from "../credentials";
+import { connectAndSaveMT5Account, testSavedMT5Account } from "../mt5Accounts";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+export function AccountsScreen() {
+  const { userId, apiBaseUrl, mt5Form, updateMt5Form, mt5Accounts, applyAccounts, replaceAccount, reauthenticate } =
+    useAppStore();
+  const request = useRequest();
+  const [renamingAccountId, setRenamingAccountId] = useState<number | null>(null);
+  const [renameLabel, setRenameLabel] = useState("");
+  const [accountLabel, setAccountLabel] = useState("");
+  const [password, setPassword] = useState("");
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  async function loadAccounts(): Promise<void> {
+    const accounts = await request.run(() => getMT5Accounts(userId, apiBaseUrl));
+    if (accounts) {
+      applyAccounts(accounts);
+    }
+  }
+
+  async function handleActivate(account: MT5AccountItem): Promise<void> {
+    const accounts = await request.run(async () => {
+      await activateMT5Account(userId, account.id, apiBaseUrl);
+      return getMT5Accounts(userId, apiBaseUrl);
+    });
+    if (!accounts) {
+      return;
+    }
+    applyAccounts(accounts);
+    request.setSuccessMessage(`${account.label} is now the active account`);
+  }
+
+  function handleStartRename(account: MT5AccountItem): void {
+    setRenamingAccountId(account.id);
+    setRenameLabel(account.label);
+  }
+
+  async function handleSaveRename(account: MT5AccountItem): Promise<void> {
+    if (!renameLabel.trim()) {
+      request.setError("Account name cannot be empty");
+      return;
+    }
+    const renamed = await request.run(() => renameMT5Account(userId, account.id, renameLabel, apiBaseUrl));
+    if (!renamed) {
+      return;
+    }
+    replaceAccount(renamed);
+    setRenamingAccountId(null);
+  }
+
+  async function handleDelete(account: MT5AccountItem): Promise<void> {
+    const confirmed = await confirm(
+      "Delete account?",
+      `${account.label} (${account.login} @ ${account.server}) will be removed from Apex Scalper.`,
+      "Delete",
+    );
+    if (!confirmed) {
+      return;
+    }
+    const accounts = await request.run(async () => {
+      await deleteMT5Account(userId, account.id, apiBaseUrl);
+      await deleteMT5Password(account.login, account.server);
+      return getMT5Accounts(userId, apiBaseUrl);
+    });
+    if (accounts) {
+      applyAccounts(accounts);
+      request.setSuccessMessage(`${account.label} deleted`);
+    }
+  }
+
+  async function handleTest(account: MT5AccountItem): Promise<void> {
+    const result = await request.run(() => testSavedMT5Account(account, apiBaseUrl));
+    if (!result) {
+      return;
+    }
+    if (result.status === "failed") {
+      request.setError(`${account.label}: ${result.message}`);
+    } else {
+      request.setSuccessMessage(`${account.label}: ${result.message}`);
+    }
+  }
+
+  async function handleAdd(): Promise<void> {
+    if (!(await reauthenticate("Confirm to save the MT5 account"))) {
+      return;
+    }
+    const accounts = await request.run(() =>
+      connectAndSaveMT5Account(userId, mt5Form, password, accountLabel, apiBaseUrl),
+    );
+    if (!accounts) {
+      return;
+    }
+    applyAccounts(accounts);
+    setAccountLabel("");
+    setPassword("");
+    request.setSuccessMessage("MT5 account connected");
+  }
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={styles.container}
+        data={mt5Accounts}
+        keyExtractor={(item) => String(item.id)}
+        ListHeaderComponent={
+          <View style={styles.heroCard}>
+            <Text style={styles.heroTitle}>MT5 Accounts</Text>
+            <Text style={styles.heroSubtitle}>The bot trades on the active account.</Text>
+            <Feedback request={request} />
+          </View>
+        }
+        renderItem={({ item }) => (
+          <View style={[styles.positionCard, item.is_active && styles.activeCard]}>
+            {renamingAccountId === item.id ? (
+              <>
+                <TextInput
+                  style={styles.input}
+                  value={renameLabel}
+                  onChangeText={setRenameLabel}
+                  autoFocus
+                  placeholderTextColor="#6B7280"
+                />
+                <View style={styles.rowButtons}>
+                  <Pressable style={styles.ghostButton} onPress={() => setRenamingAccountId(null)}>
+                    <Text style={styles.ghostButtonText}>Cancel</Text>
+                  </Pressable>
+                  <Pressable style={styles.primaryButton} onPress={() => handleSaveRename(item)}>
+                    <Text style={styles.primaryButtonText}>Save name</Text>
+                  </Pressable>
+                </View>
+              </>
+            ) : (
+              <>
+                <View style={styles.heroTopRow}>
+                  <Text style={styles.notificationTitle}>{item.label}</Text>
+                  {item.is_active ? <Text style={styles.pnlPositive}>ACTIVE</Text> : null}
+                </View>
+                <Text style={styles.panelLine}>
+                  {item.broker ? `${item.broker} • ` : ""}
+                  {item.login} @ {item.server}
+                </Text>
+                <View style={styles.rowButtons}>
+                  {!item.is_active ? (
+                    <Pressable style={styles.primaryButton} onPress={() => handleActivate(item)}>
+                      <Text style={styles.primaryButtonText}>Activate</Text>
+                    </Pressable>
+                  ) : null}
+                  <Pressable style={styles.ghostButton} onPress={() => handleTest(item)}>
+                    <Text style={styles.ghostButtonText}>Test</Text>
+                  </Pressable>
+                  <Pressable style={styles.ghostButton} onPress={() => handleStartRename(item)}>
+                    <Text style={styles.ghostButtonText}>Rename</Text>
+                  </Pressable>
+                  <Pressable style={styles.ghostButton} onPress={() => handleDelete(item)}>
+                    <Text style={styles.ghostButtonText}>Delete</Text>
+                  </Pressable>
+                </View>
+              </>
+            )}
+          </View>
+        )}
+        ListEmptyComponent={<Text style={styles.panelLine}>No MT5 accounts saved yet.</Text>}
+        ListFooterComponent={
+          <View style={styles.panel}>
+            <Text style={styles.panelTitle}>Add account</Text>
+
+            <Text style={styles.inputLabel}>Name</Text>
+            <TextInput
+              style={styles.input}
+              value={accountLabel}
+              onChangeText={setAccountLabel}
+              placeholder="e.g. IC Markets live"
+              placeholderTextColor="#6B7280"
+            />
+
+            <MT5AccountFields
+              form={mt5Form}
+              onChange={updateMt5Form}
+              password={password}
+              onPasswordChange={setPassword}
+              baseUrl={apiBaseUrl}
+            />
+
+            <Pressable style={styles.primaryButton} onPress={handleAdd}>
+              <Text style={styles.primaryButtonText}>Validate & Add</Text>
+            </Pressable>
+          </View>
+        }
+      />
+    </View>
+  );
+}
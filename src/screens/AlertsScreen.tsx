@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { FlatList, Pressable, Text, TextInput, View } from "react-native";
+
+import { ALERT_EVENT_TYPES, AlertSettings, DEFAULT_ALERT_SETTINGS, mergeAlertSettings, parseClock } from "../alerts";
+import { checkForAlerts, disableAlertWatcher, enableAlertWatcher } from "../alertWatcher";
+import { Feedback } from "../components/Feedback";
+import { OptionGroup } from "../components/OptionGroup";
+import { loadAlertSettings, saveAlertSettings } from "../storage";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+const ON_OFF_OPTIONS: { value: "on" | "off"; label: string }[] = [
+  { value: "on", label: "On" },
+  { value: "off", label: "Off" },
+];
+
+export function AlertsScreen() {
+  const request = useRequest();
+  const [settings, setSettings] = useState<AlertSettings>(DEFAULT_ALERT_SETTINGS);
+
+  useEffect(() => {
+    loadAlertSettings().then((saved) => setSettings(mergeAlertSettings(saved)));
+  }, []);
+
+  function updateQuietHours(patch: Partial<AlertSettings["quietHours"]>): void {
+    setSettings((current) => ({ ...current, quietHours: { ...current.quietHours, ...patch } }));
+  }
+
+  function toggleEventType(eventType: string, enabled: boolean): void {
+    setSettings((current) => ({ ...current, eventTypes: { ...current.eventTypes, [eventType]: enabled } }));
+  }
+
+  async function handleSave(): Promise<void> {
+    const { quietHours } = settings;
+    if (quietHours.enabled && (parseClock(quietHours.start) === null || parseClock(quietHours.end) === null)) {
+      request.setError("Quiet hours must use the HH:MM format");
+      return;
+    }
+    const saved = await request.run(async () => {
+      if (!settings.enabled) {
+        await disableAlertWatcher();
+      } else if (!(await enableAlertWatcher())) {
+        throw new Error("Notifications are blocked for Apex Scalper. Allow them in the system settings.");
+      }
+      await saveAlertSettings(settings);
+      return settings;
+    });
+    if (saved) {
+      request.setSuccessMessage(saved.enabled ? "Alerts saved" : "Alerts turned off");
+    }
+  }
+
+  async function handleCheckNow(): Promise<void> {
+    const sent = await request.run(() => checkForAlerts());
+    if (sent !== null) {
+      request.setSuccessMessage(sent ? `Sent ${sent} alert${sent === 1 ? "" : "s"}` : "Nothing new to alert on");
+    }
+  }
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={styles.container}
+        data={ALERT_EVENT_TYPES}
+        keyExtractor={(item) => item.value}
+        ListHeaderComponent={
+          <>
+            <View style={styles.heroCard}>
+              <Text style={styles.heroTitle}>Device alerts</Text>
+              <Text style={styles.heroSubtitle}>
+                Checked in the background every 15 minutes or so, even when the app is closed.
+              </Text>
+              <OptionGroup
+                options={ON_OFF_OPTIONS}
+                selected={settings.enabled ? "on" : "off"}
+                onSelect={(value) => setSettings((current) => ({ ...current, enabled: value === "on" }))}
+              />
+            </View>
+
+            <View style={styles.panel}>
+              <Text style={styles.panelTitle}>Quiet hours</Text>
+              <Text style={styles.panelLine}>Alerts are held back until quiet hours end.</Text>
+              <OptionGroup
+                options={ON_OFF_OPTIONS}
+                selected={settings.quietHours.enabled ? "on" : "off"}
+                onSelect={(value) => updateQuietHours({ enabled: value === "on" })}
+              />
+              {settings.quietHours.enabled ? (
+                <View style={styles.rowButtons}>
+                  <View style={styles.flexColumn}>
+                    <Text style={styles.inputLabel}>From</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={settings.quietHours.start}
+                      onChangeText={(value) => updateQuietHours({ start: value })}
+                      placeholder="HH:MM"
+                      placeholderTextColor="#6B7280"
+                    />
+                  </View>
+                  <View style={styles.flexColumn}>
+                    <Text style={styles.inputLabel}>To</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={settings.quietHours.end}
+                      onChangeText={(value) => updateQuietHours({ end: value })}
+                      placeholder="HH:MM"
+                      placeholderTextColor="#6B7280"
+                    />
+                  </View>
+                </View>
+              ) : null}
+            </View>
+
+            <Text style={styles.sectionTitle}>Alert me when</Text>
+          </>
+        }
+        renderItem={({ item }) => (
+          <View style={styles.positionCard}>
+            <Text style={styles.notificationTitle}>{item.label}</Text>
+            <OptionGroup
+              options={ON_OFF_OPTIONS}
+              selected={settings.eventTypes[item.value] ? "on" : "off"}
+              onSelect={(value) => toggleEventType(item.value, value === "on")}
+            />
+          </View>
+        )}
+        ListFooterComponent={
+          <View style={styles.panel}>
+            <View style={styles.rowButtons}>
+              <Pressable style={styles.ghostButton} onPress={handleCheckNow}>
+                <Text style={styles.ghostButtonText}>Check now</Text>
+              </Pressable>
+              <Pressable style={styles.primaryButton} onPress={handleSave}>
+                <Text style={styles.primaryButtonText}>Save</Text>
+              </Pressable>
+            </View>
+            <Feedback request={request} />
+          </View>
+        }
+      />
+    </View>
+  );
+}
@@ -0,0 +1,144 @@
+import { useNavigation } from "@react-navigation/native";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { FlatList, Pressable, Text, View } from "react-native";
+
+import { ClosedTradeItem, TradingMode, getClosedTradesPage } from "../api";
+import { GroupPeriod, breakdownBySymbol, buildEquityCurve, computeStats, groupByPeriod } from "../analytics";
+import { EquityCurve } from "../components/EquityCurve";
+import { Feedback } from "../components/Feedback";
+import { OptionGroup } from "../components/OptionGroup";
+import { StatsPanel } from "../components/StatsPanel";
+import { PaperNotice, TRADING_MODE_OPTIONS } from "../components/TradingMode";
+import { TabNavigation } from "../navigation/types";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+const ANALYTICS_PAGE_SIZE = 100;
+const ANALYTICS_MAX_PAGES = 10;
+
+export function AnalyticsScreen() {
+  const navigation = useNavigation<TabNavigation>();
+  const { userId, apiBaseUrl } = useAppStore();
+  const request = useRequest();
+  const [analyticsTrades, setAnalyticsTrades] = useState<ClosedTradeItem[]>([]);
+  const [analyticsPeriod, setAnalyticsPeriod] = useState<GroupPeriod>("day");
+  const [analyticsMode, setAnalyticsMode] = useState<TradingMode>("live");
+  const analyticsController = useRef<AbortController | null>(null);
+
+  const analytics = useMemo(
+    () => ({
+      overall: computeStats(analyticsTrades),
+      curve: buildEquityCurve(analyticsTrades),
+      symbols: breakdownBySymbol(analyticsTrades),
+    }),
+    [analyticsTrades],
+  );
+  const analyticsGroups = useMemo(
+    () => groupByPeriod(analyticsTrades, analyticsPeriod),
+    [analyticsTrades, analyticsPeriod],
+  );
+
+  useEffect(() => {
+    loadTrades(analyticsMode);
+    return () => analyticsController.current?.abort();
+  }, []);
+
+  async function loadTrades(mode: TradingMode): Promise<void> {
+    // A slower load for the other mode must never land under this mode's label.
+    analyticsController.current?.abort();
+    const controller = new AbortController();
+    analyticsController.current = controller;
+    setAnalyticsMode(mode);
+    setAnalyticsTrades([]);
+    const trades = await request.run(async () => {
+      const collected: ClosedTradeItem[] = [];
+      let cursor: string | undefined;
+      for (let page = 0; page < ANALYTICS_MAX_PAGES; page += 1) {
+        const result = await getClosedTradesPage(userId, { cursor, limit: ANALYTICS_PAGE_SIZE, mode }, apiBaseUrl, {
+          signal: controller.signal,
+        });
+        collected.push(...result.items);
+        if (!result.next_cursor) {
+          break;
+        }
+        cursor = result.next_cursor;
+      }
+      return collected;
+    });
+    if (trades && !controller.signal.aborted) {
+      setAnalyticsTrades(trades);
+    }
+  }
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={styles.container}
+        data={analyticsGroups}
+        keyExtractor={(item) => item.key}
+        ListHeaderComponent={
+          <>
+            <View style={styles.heroCard}>
+              <Text style={styles.heroTitle}>{analyticsMode === "paper" ? "Paper performance" : "Performance"}</Text>
+              <Text style={styles.heroSubtitle}>
+                Based on the last {analyticsTrades.length} closed {analyticsMode === "paper" ? "paper " : ""}trades
+              </Text>
+              <OptionGroup options={TRADING_MODE_OPTIONS} selected={analyticsMode} onSelect={loadTrades} />
+              {analyticsMode === "paper" ? (
+                <PaperNotice>Simulated trades only. Live results are not included.</PaperNotice>
+              ) : null}
+              <View style={styles.rowButtons}>
+                <Pressable style={styles.ghostButton} onPress={() => loadTrades(analyticsMode)}>
+                  <Text style={styles.ghostButtonText}>Reload</Text>
+                </Pressable>
+                <Pressable
+                  style={styles.ghostButton}
+                  onPress={() => navigation.navigate("PnlCalendar", { mode: analyticsMode })}
+                >
+                  <Text style={styles.ghostButtonText}>PnL calendar</Text>
+                </Pressable>
+              </View>
+              <Feedback request={request} />
+            </View>
+
+            <StatsPanel title="Overall" stats={analytics.overall} />
+
+            <View style={styles.panel}>
+              <Text style={styles.panelTitle}>Equity curve</Text>
+              <EquityCurve points={analytics.curve} />
+            </View>
+
+            <View style={styles.panel}>
+              <Text style={styles.panelTitle}>By symbol</Text>
+              {analytics.symbols.length ? (
+                analytics.symbols.map((group) => (
+                  <Text key={group.key} style={styles.panelLine}>
+                    {group.key} • {group.stats.trades} trades • win {(group.stats.winRate * 100).toFixed(0)}% • net{" "}
+                    <Text style={group.stats.netPnl >= 0 ? styles.pnlPositive : styles.pnlNegative}>
+                      {group.stats.netPnl.toFixed(2)}
+                    </Text>
+                  </Text>
+                ))
+              ) : (
+                <Text style={styles.panelLine}>No closed trades yet.</Text>
+              )}
+            </View>
+
+            <OptionGroup
+              options={[
+                { value: "day", label: "Day" },
+                { value: "week", label: "Week" },
+                { value: "session", label: "Session" },
+              ]}
+              selected={analyticsPeriod}
+              onSelect={setAnalyticsPeriod}
+            />
+          </>
+        }
+        renderItem={({ item }) => <StatsPanel title={item.key} stats={item.stats} />}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { FlatList, Pressable, Text, TextInput, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { activateLicense, saveConfiguration } from "../api";
+import { ConfigFields } from "../components/ConfigFields";
+import { Feedback } from "../components/Feedback";
+import { PresetsPanel } from "../components/PresetsPanel";
+import { buildConfigRequests, configurationPayload } from "../configForm";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+import { hasErrors, validateConfigForm } from "../validation";
+
+export function ConfigureScreen() {
+  const {
+    userId,
+    apiBaseUrl,
+    configForm,
+    updateConfigForm,
+    setSchedule,
+    setRiskConfig,
+    updateProgress,
+    reauthenticate,
+  } = useAppStore();
+  const request = useRequest();
+  const [licenseKey, setLicenseKey] = useState("");
+  // Errors stay hidden until the first save attempt so an untouched form is not covered in red.
+  const [showErrors, setShowErrors] = useState(false);
+  const errors = validateConfigForm(configForm);
+
+  async function handleSave(): Promise<void> {
+    setShowErrors(true);
+    if (hasErrors(errors)) {
+      request.setSuccessMessage(null);
+      request.setError("Fix the highlighted fields before saving");
+      return;
+    }
+
+    // One confirmation covers both the settings and the license activation below.
+    if (!(await reauthenticate("Confirm to save your settings"))) {
+      return;
+    }
+    const requests = buildConfigRequests(userId, configForm);
+    const saved = await request.run(() => saveConfiguration(configurationPayload(requests), apiBaseUrl));
+    if (saved === null) {
+      return;
+    }
+    setSchedule(requests.session.schedule ?? null);
+    setRiskConfig(requests.risk);
+
+    if (licenseKey.trim()) {
+      const activated = await request.run(() => activateLicense(userId, licenseKey, apiBaseUrl));
+      if (activated === null) {
+        return;
+      }
+    }
+
+    // Finishing setup swaps the setup screens for the main tabs.
+    updateProgress({ configured: true });
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <FlatList
+        data={[]}
+        contentContainerStyle={styles.container}
+        renderItem={undefined as never}
+        ListHeaderComponent={
+          <>
+            <PresetsPanel form={configForm} onApply={updateConfigForm} request={request} />
+
+            <View style={styles.panel}>
+              <Text style={styles.panelTitle}>Configure Bot</Text>
+              <Text style={styles.panelLine}>Set trading, risk, and session rules before going live.</Text>
+
+              <ConfigFields form={configForm} onChange={updateConfigForm} errors={showErrors ? errors : {}} />
+
+              <Text style={styles.inputLabel}>License key (optional)</Text>
+              <TextInput
+                style={styles.input}
+                value={licenseKey}
+                onChangeText={setLicenseKey}
+                placeholderTextColor="#6B7280"
+              />
+
+              <Pressable style={styles.primaryButton} onPress={handleSave}>
+                <Text style={styles.primaryButtonText}>Save & Open Home</Text>
+              </Pressable>
+              <Feedback request={request} />
+            </View>
+          </>
+        }
+      />
+    </SafeAreaView>
+  );
+}
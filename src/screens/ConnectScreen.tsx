@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { FlatList, Pressable, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { Feedback } from "../components/Feedback";
+import { MT5AccountFields } from "../components/MT5AccountFields";
+import { connectAndSaveMT5Account } from "../mt5Accounts";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+export function ConnectScreen() {
+  const { userId, apiBaseUrl, mt5Form, updateMt5Form, applyAccounts, updateProgress, reauthenticate } = useAppStore();
+  const request = useRequest();
+  const [password, setPassword] = useState("");
+
+  async function handleConnect(): Promise<void> {
+    if (!(await reauthenticate("Confirm to save the MT5 account"))) {
+      return;
+    }
+    const accounts = await request.run(() => connectAndSaveMT5Account(userId, mt5Form, password, "", apiBaseUrl));
+    if (!accounts) {
+      return;
+    }
+    setPassword("");
+    applyAccounts(accounts);
+    updateProgress({ mt5Connected: true });
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <FlatList
+        data={[]}
+        contentContainerStyle={styles.container}
+        renderItem={undefined as never}
+        ListHeaderComponent={
+          <View style={styles.panel}>
+            <Text style={styles.panelTitle}>Connect MT5 Account</Text>
+            <Text style={styles.panelLine}>Add your broker account to continue setup.</Text>
+
+            <MT5AccountFields
+              form={mt5Form}
+              onChange={updateMt5Form}
+              password={password}
+              onPasswordChange={setPassword}
+              baseUrl={apiBaseUrl}
+            />
+
+            <Pressable style={styles.primaryButton} onPress={handleConnect}>
+              <Text style={styles.primaryButtonText}>Validate & Connect</Text>
+            </Pressable>
+            <Feedback request={request} />
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useMemo, useState } from "react";
+import { FlatList, Pressable, Text, TextInput, View } from "react-native";
+
+import type { LatencyMetricsResponse } from "../api";
+import { Feedback } from "../components/Feedback";
+import { Sparkline } from "../components/Sparkline";
+import { findBreaches, metricSeries } from "../latency";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+export function DiagnosticsScreen() {
+  const { latencyHistory, latencyThresholds, setLatencyThresholds, sampleLatency } = useAppStore();
+  const request = useRequest();
+  const [p95Threshold, setP95Threshold] = useState(String(latencyThresholds.p95Ms));
+  const [p99Threshold, setP99Threshold] = useState(String(latencyThresholds.p99Ms));
+
+  const latestLatency: LatencyMetricsResponse = useMemo(
+    () => latencyHistory[latencyHistory.length - 1]?.metrics ?? {},
+    [latencyHistory],
+  );
+  const latencyBreaches = useMemo(
+    () => findBreaches(latestLatency, latencyThresholds),
+    [latestLatency, latencyThresholds],
+  );
+
+  useEffect(() => {
+    request.run(sampleLatency);
+  }, []);
+
+  function handleSaveLatencyThresholds(): void {
+    const p95Ms = Number(p95Threshold);
+    const p99Ms = Number(p99Threshold);
+    if (!(p95Ms > 0) || !(p99Ms > 0)) {
+      request.setError("Thresholds must be positive numbers of milliseconds");
+      return;
+    }
+    if (p99Ms < p95Ms) {
+      request.setError("The p99 threshold cannot be lower than the p95 threshold");
+      return;
+    }
+    request.resetFeedback();
+    setLatencyThresholds({ p95Ms, p99Ms });
+    request.setSuccessMessage("Latency thresholds saved");
+  }
+
+  const metricNames = Object.keys(latestLatency).sort();
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={styles.container}
+        data={metricNames}
+        keyExtractor={(item) => item}
+        ListHeaderComponent={
+          <View style={styles.heroCard}>
+            <Text style={styles.heroTitle}>Latency</Text>
+            <Text style={styles.heroSubtitle}>
+              {latencyHistory.length} samples • {latencyBreaches.length} above threshold
+            </Text>
+            <View style={styles.rowButtons}>
+              <View style={styles.flexColumn}>
+                <Text style={styles.inputLabel}>p95 limit (ms)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={p95Threshold}
+                  onChangeText={setP95Threshold}
+                  keyboardType="numeric"
+                  placeholderTextColor="#6B7280"
+                />
+              </View>
+              <View style={styles.flexColumn}>
+                <Text style={styles.inputLabel}>p99 limit (ms)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={p99Threshold}
+                  onChangeText={setP99Threshold}
+                  keyboardType="numeric"
+                  placeholderTextColor="#6B7280"
+                />
+              </View>
+            </View>
+            <View style={styles.rowButtons}>
+              <Pressable style={styles.ghostButton} onPress={handleSaveLatencyThresholds}>
+                <Text style={styles.ghostButtonText}>Save limits</Text>
+              </Pressable>
+              <Pressable style={styles.primaryButton} onPress={() => request.run(sampleLatency)}>
+                <Text style={styles.primaryButtonText}>Sample</Text>
+              </Pressable>
+            </View>
+            <Feedback request={request} />
+          </View>
+        }
+        renderItem={({ item }) => {
+          const stats = latestLatency[item];
+          const p95Breached = stats.p95 > latencyThresholds.p95Ms;
+          const p99Breached = stats.p99 > latencyThresholds.p99Ms;
+          return (
+            <View style={styles.positionCard}>
+              <Text style={styles.notificationTitle}>{item}</Text>
+              <Text style={styles.panelLine}>
+                n={stats.count} • p50 {stats.p50.toFixed(0)}ms •{" "}
+                <Text style={p95Breached ? styles.pnlNegative : undefined}>p95 {stats.p95.toFixed(0)}ms</Text> •{" "}
+                <Text style={p99Breached ? styles.pnlNegative : undefined}>p99 {stats.p99.toFixed(0)}ms</Text>
+              </Text>
+              <Sparkline values={metricSeries(latencyHistory, item, "p95")} limit={latencyThresholds.p95Ms} />
+            </View>
+          );
+        }}
+        ListEmptyComponent={<Text style={styles.panelLine}>No latency metrics reported yet.</Text>}
+      />
+    </View>
+  );
+}
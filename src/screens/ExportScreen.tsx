@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState } from "react";
+import { FlatList, Pressable, Text, TextInput, View } from "react-native";
+
+import type { TradingMode } from "../api";
+import { Feedback } from "../components/Feedback";
+import { MetricCard } from "../components/MetricCard";
+import { OptionGroup } from "../components/OptionGroup";
+import { PaperNotice, TRADING_MODE_OPTIONS } from "../components/TradingMode";
+import {
+  ReportFileKind,
+  ReportRange,
+  TradeReport,
+  buildReportFile,
+  reportSummary,
+  validateReportRange,
+} from "../reportExport";
+import { fetchTradeReport, shareReportFile } from "../reportShare";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+const EXPORT_OPTIONS: { kind: ReportFileKind; label: string }[] = [
+  { kind: "trades-csv", label: "Trades CSV" },
+  { kind: "daily-pnl-csv", label: "Daily PnL CSV" },
+  { kind: "json", label: "Full report JSON" },
+];
+
+// Month to date, in UTC days like the backend's daily PnL.
+function defaultRange(now: Date = new Date()): ReportRange {
+  const to = now.toISOString().slice(0, 10);
+  return { from: `${to.slice(0, 8)}01`, to };
+}
+
+export function ExportScreen() {
+  const { userId, apiBaseUrl } = useAppStore();
+  const request = useRequest();
+  const [range, setRange] = useState<ReportRange>(() => defaultRange());
+  const [mode, setMode] = useState<TradingMode>("live");
+  const [report, setReport] = useState<TradeReport | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  function updateRange(key: keyof ReportRange, value: string): void {
+    setRange((current) => ({ ...current, [key]: value.trim() }));
+    // A report for other dates must not be shared by mistake.
+    setReport(null);
+  }
+
+  function updateMode(value: TradingMode): void {
+    setMode(value);
+    setReport(null);
+  }
+
+  async function handleLoad(): Promise<void> {
+    const problem = validateReportRange(range);
+    if (problem) {
+      request.setError(problem);
+      return;
+    }
+    controller.current?.abort();
+    const next = new AbortController();
+    controller.current = next;
+    const loaded = await request.run(() => fetchTradeReport(userId, range, mode, apiBaseUrl, { signal: next.signal }));
+    if (loaded && !next.signal.aborted) {
+      setReport(loaded);
+    }
+  }
+
+  async function handleShare(kind: ReportFileKind): Promise<void> {
+    if (report) {
+      await request.run(() => shareReportFile(buildReportFile(kind, report)));
+    }
+  }
+
+  const summary = report ? reportSummary(report) : null;
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        data={[]}
+        contentContainerStyle={styles.container}
+        renderItem={undefined as never}
+        ListHeaderComponent={
+          <>
+            <View style={styles.heroCard}>
+              <Text style={styles.heroTitle}>Export trades</Text>
+              <Text style={styles.heroSubtitle}>
+                Closed trades and daily PnL for the active account, as CSV or JSON files.
+              </Text>
+              <Text style={styles.panelLine}>Days are UTC and both dates are included.</Text>
+            </View>
+
+            <View style={styles.panel}>
+              <Text style={styles.inputLabel}>Results</Text>
+              <OptionGroup options={TRADING_MODE_OPTIONS} selected={mode} onSelect={updateMode} />
+              <View style={styles.rowButtons}>
+                <View style={styles.flexColumn}>
+                  <Text style={styles.inputLabel}>From</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={range.from}
+                    onChangeText={(value) => updateRange("from", value)}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor="#6B7280"
+                  />
+                </View>
+                <View style={styles.flexColumn}>
+                  <Text style={styles.inputLabel}>To</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={range.to}
+                    onChangeText={(value) => updateRange("to", value)}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor="#6B7280"
+                  />
+                </View>
+              </View>
+              <Pressable
+                style={[styles.primaryButton, request.loading && styles.buttonDisabled]}
+                onPress={handleLoad}
+                disabled={request.loading}
+              >
+                <Text style={styles.primaryButtonText}>{report ? "Reload" : "Load trades"}</Text>
+              </Pressable>
+              <Feedback request={request} />
+            </View>
+
+            {report && summary ? (
+              <View style={styles.panel}>
+                <Text style={styles.panelTitle}>
+                  {report.mode === "paper" ? "Paper trades" : "Live trades"}, {report.range.from} to {report.range.to}
+                </Text>
+                {report.mode === "paper" ? (
+                  <PaperNotice>Simulated trades. The files are named and marked as paper results.</PaperNotice>
+                ) : null}
+                <View style={styles.metricsRow}>
+                  <MetricCard label="Trades" value={String(summary.trades)} />
+                  <MetricCard label="Realized PnL" value={summary.realized_pnl.toFixed(2)} />
+                </View>
+                <View style={styles.metricsRow}>
+                  <MetricCard label="Winning trades" value={String(summary.wins)} />
+                  <MetricCard label="Trading days" value={String(report.dailyPnl.length)} />
+                </View>
+                {EXPORT_OPTIONS.map((option) => (
+                  <Pressable
+                    key={option.kind}
+                    style={[styles.ghostButton, request.loading && styles.buttonDisabled]}
+                    onPress={() => handleShare(option.kind)}
+                    disabled={request.loading}
+                  >
+                    <Text style={styles.ghostButtonText}>Share {option.label}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            ) : null}
+          </>
+        }
+      />
+    </View>
+  );
+}
@@ -0,0 +1,202 @@
+import { useNavigation } from "@react-navigation/native";
+import { useEffect, useState } from "react";
+import { FlatList, Pressable, Text, View } from "react-native";
+
+import { TradingMode, startBot, stopBot } from "../api";
+import { DailyPnlPanel } from "../components/DailyPnlPanel";
+import { Feedback } from "../components/Feedback";
+import { MetricCard } from "../components/MetricCard";
+import { OptionGroup } from "../components/OptionGroup";
+import { SchedulePanel } from "../components/SchedulePanel";
+import { PaperNotice, TRADING_MODE_OPTIONS } from "../components/TradingMode";
+import { isMockBaseUrl } from "../mockBackend";
+import { TabNavigation } from "../navigation/types";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useOpenNotification } from "../useOpenNotification";
+import { useRequest } from "../useRequest";
+
+export function HomeScreen() {
+  const navigation = useNavigation<TabNavigation>();
+  const store = useAppStore();
+  const { userId, apiBaseUrl, activeAccount, liveState, health, summary, botStatus, openTrades } = store;
+  const request = useRequest();
+  const openNotification = useOpenNotification();
+  // Paper is preselected so trying new settings never risks capital by accident.
+  const [startMode, setStartMode] = useState<TradingMode>("paper");
+
+  useEffect(() => {
+    request.run(store.refreshHome);
+  }, []);
+
+  const paperOpenCount = openTrades.filter((trade) => trade.mode === "paper").length;
+  // Paper trades closed from this device are cached next to live ones; this panel is live results only.
+  const liveClosedTrades = store.closedTrades.filter((trade) => trade.mode === "live");
+  const healthColor = health === "healthy" ? "#22C55E" : health === "unhealthy" ? "#EF4444" : "#A1A1AA";
+
+  async function handleStartBot(): Promise<void> {
+    // Paper runs place no orders, so only live trading asks the user to confirm it's them.
+    if (startMode === "live" && !(await store.reauthenticate("Confirm to start live trading"))) {
+      return;
+    }
+    const result = await request.run(() => startBot(userId, startMode, apiBaseUrl));
+    if (!result) {
+      return;
+    }
+    store.setBotStatus(result);
+    await request.run(store.refreshHome);
+    request.setSuccessMessage(result.mode === "paper" ? "Paper trading started" : "Bot started");
+  }
+
+  async function handleStopBot(): Promise<void> {
+    const result = await request.run(() => stopBot(userId, apiBaseUrl));
+    if (!result) {
+      return;
+    }
+    store.setBotStatus(result);
+    await request.run(store.refreshHome);
+    request.setSuccessMessage("Bot stopped");
+  }
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={styles.container}
+        data={store.notifications.slice(0, 10)}
+        keyExtractor={(item) => String(item.id)}
+        ListHeaderComponent={
+          <>
+            <View style={styles.heroCard}>
+              <View style={styles.heroTopRow}>
+                <View>
+                  <Text style={styles.heroTitle}>Welcome back</Text>
+                  <Text style={styles.heroSubtitle}>
+                    {userId}
+                    {isMockBaseUrl(apiBaseUrl) ? " • demo backend" : ""}
+                  </Text>
+                  <Text style={styles.heroSubtitle}>
+                    {activeAccount
+                      ? `${activeAccount.label} • ${activeAccount.login}@${activeAccount.server}`
+                      : "No active MT5 account"}
+                  </Text>
+                  <Text style={styles.heroSubtitle}>
+                    {liveState === "live" ? "Live updates" : liveState === "polling" ? "Polling for updates" : "Connecting…"}
+                  </Text>
+                </View>
+                <View style={styles.healthBadge}>
+                  <View style={[styles.healthDot, { backgroundColor: healthColor }]} />
+                  <Text style={styles.healthLabel}>{health.toUpperCase()}</Text>
+                </View>
+              </View>
+
+              {botStatus?.running ? null : (
+                <>
+                  <OptionGroup options={TRADING_MODE_OPTIONS} selected={startMode} onSelect={setStartMode} />
+                  <Text style={styles.panelLine}>
+                    {startMode === "paper"
+                      ? "Paper runs your settings against live prices and records the trades, but sends no orders."
+                      : "Live sends real orders to your MT5 account."}
+                  </Text>
+                </>
+              )}
+              <View style={styles.rowButtons}>
+                <Pressable style={styles.ghostButton} onPress={() => request.run(store.refreshHome)}>
+                  <Text style={styles.ghostButtonText}>Refresh</Text>
+                </Pressable>
+                <Pressable style={styles.primaryButton} onPress={botStatus?.running ? handleStopBot : handleStartBot}>
+                  <Text style={styles.primaryButtonText}>
+                    {botStatus?.running ? "Stop Bot" : startMode === "paper" ? "Start Paper" : "Start Live"}
+                  </Text>
+                </Pressable>
+              </View>
+              {botStatus?.running && botStatus.mode === "paper" ? (
+                <PaperNotice>
+                  Paper trading. Orders are simulated and never reach your broker; balance and equity below are your
+                  live account.
+                </PaperNotice>
+              ) : null}
+              {botStatus?.running ? (
+                <Text style={styles.panelLine}>
+                  Stopping the bot leaves open positions open. Use KILL to stop and close everything.
+                </Text>
+              ) : null}
+              <Pressable style={styles.ghostButton} onPress={() => navigation.navigate("Positions")}>
+                <Text style={styles.ghostButtonText}>Open positions ({openTrades.length})</Text>
+              </Pressable>
+              <Feedback request={request} />
+            </View>
+
+            <View style={styles.metricsRow}>
+              <MetricCard label="Balance" value={summary ? `$${summary.balance.toFixed(2)}` : "—"} />
+              <MetricCard label="Equity" value={summary ? `$${summary.equity.toFixed(2)}` : "—"} />
+            </View>
+            <View style={styles.metricsRow}>
+              <MetricCard label="Margin" value={summary ? `$${summary.margin.toFixed(2)}` : "—"} />
+              <MetricCard
+                label="Bot"
+                value={botStatus?.running ? (botStatus.mode === "paper" ? "Paper" : "Active") : "Stopped"}
+              />
+            </View>
+            <View style={styles.metricsRow}>
+              <MetricCard
+                label="Open trades"
+                value={`${openTrades.length - paperOpenCount}${paperOpenCount ? ` + ${paperOpenCount} paper` : ""}`}
+              />
+              <MetricCard label="Session trades" value={String(botStatus?.trades_opened_this_session ?? 0)} />
+            </View>
+
+            <DailyPnlPanel
+              pnl={store.dailyPnl}
+              risk={store.riskConfig}
+              onOpenCalendar={() => navigation.navigate("PnlCalendar")}
+            />
+            {botStatus?.mode === "paper" || store.paperPnl?.realized_pnl || store.paperPnl?.unrealized_pnl ? (
+              <DailyPnlPanel
+                pnl={store.paperPnl}
+                mode="paper"
+                risk={store.riskConfig}
+                onOpenCalendar={() => navigation.navigate("PnlCalendar", { mode: "paper" })}
+              />
+            ) : null}
+
+            <SchedulePanel schedule={store.schedule} onEdit={() => navigation.navigate("Settings")} />
+
+            <View style={styles.panel}>
+              <Text style={styles.panelTitle}>Account & License</Text>
+              <Text style={styles.panelLine}>License: {store.license?.status ?? "unknown"}</Text>
+              <Text style={styles.panelLine}>Valid: {store.license?.valid ? "Yes" : "No"}</Text>
+            </View>
+
+            <View style={styles.panel}>
+              <Text style={styles.panelTitle}>Recent Closed Trades</Text>
+              {liveClosedTrades.length ? (
+                liveClosedTrades.slice(0, 4).map((trade) => (
+                  <Pressable key={trade.id} onPress={() => navigation.navigate("TradeDetail", { tradeId: trade.id })}>
+                    <Text style={styles.panelLine}>
+                      {trade.symbol} {trade.side} • PnL {trade.pnl.toFixed(4)}
+                    </Text>
+                  </Pressable>
+                ))
+              ) : (
+                <Text style={styles.panelLine}>No closed trades yet.</Text>
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Notifications</Text>
+          </>
+        }
+        renderItem={({ item }) => (
+          <Pressable
+            style={[styles.notificationCard, !item.read && styles.notificationUnread]}
+            onPress={() => openNotification(item)}
+          >
+            <Text style={styles.notificationTitle}>{item.title}</Text>
+            <Text style={styles.notificationBody}>{item.message}</Text>
+          </Pressable>
+        )}
+        ListEmptyComponent={<Text style={styles.panelLine}>No notifications available.</Text>}
+      />
+    </View>
+  );
+}
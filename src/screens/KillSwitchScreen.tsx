@@ -0,0 +1,106 @@
+import { useNavigation } from "@react-navigation/native";
+import { FlatList, Pressable, Text, View } from "react-native";
+
+import { Feedback } from "../components/Feedback";
+import { RootNavigation } from "../navigation/types";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+// Long enough that a stray tap or scroll cannot trigger it.
+const HOLD_TO_CONFIRM_MS = 2_000;
+
+export function KillSwitchScreen() {
+  const navigation = useNavigation<RootNavigation>();
+  const { botStatus, openTrades, killSwitchResult, triggerKillSwitch } = useAppStore();
+  const request = useRequest();
+
+  function handleTap(): void {
+    request.setError(null);
+    request.setSuccessMessage(`Hold the button for ${HOLD_TO_CONFIRM_MS / 1000} seconds to confirm`);
+  }
+
+  async function handleConfirmed(): Promise<void> {
+    request.setSuccessMessage(null);
+    const result = await request.run(triggerKillSwitch);
+    if (!result) {
+      return;
+    }
+    if (result.failed.length) {
+      request.setError(`Bot stopped, but ${result.failed.length} position(s) could not be closed`);
+    } else {
+      request.setSuccessMessage(`Bot stopped and ${result.closed.length} position(s) closed`);
+    }
+  }
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={styles.container}
+        data={killSwitchResult?.closed ?? []}
+        keyExtractor={(item) => String(item.id)}
+        ListHeaderComponent={
+          <>
+            <View style={styles.heroCard}>
+              <Text style={styles.heroTitle}>Kill switch</Text>
+              <Text style={styles.heroSubtitle}>
+                Stops the bot first, then closes every open position at market. The result is recorded in your
+                notifications.
+              </Text>
+              <Text style={styles.panelLine}>
+                Bot {botStatus?.running ? "running" : "stopped"} • {openTrades.length} open position(s)
+              </Text>
+              <Pressable
+                style={({ pressed }) => [styles.dangerButton, pressed && styles.buttonPressed]}
+                onPress={handleTap}
+                onLongPress={handleConfirmed}
+                delayLongPress={HOLD_TO_CONFIRM_MS}
+                disabled={request.loading}
+              >
+                <Text style={styles.dangerButtonText}>Hold to stop and close everything</Text>
+              </Pressable>
+              <Feedback request={request} />
+            </View>
+
+            {killSwitchResult ? (
+              <View style={styles.panel}>
+                <Text style={styles.panelTitle}>Last run</Text>
+                <Text style={styles.panelLine}>
+                  {new Date(killSwitchResult.notification.created_at).toLocaleString()} •{" "}
+                  {killSwitchResult.notification.message}
+                </Text>
+                {killSwitchResult.failed.map((failure) => (
+                  <Text key={failure.trade_id} style={styles.errorText}>
+                    #{failure.trade_id} not closed: {failure.detail}
+                  </Text>
+                ))}
+                {killSwitchResult.failed.length ? (
+                  <Pressable style={styles.ghostButton} onPress={() => navigation.navigate("Positions")}>
+                    <Text style={styles.ghostButtonText}>Close the rest from open positions</Text>
+                  </Pressable>
+                ) : null}
+              </View>
+            ) : null}
+
+            {killSwitchResult?.closed.length ? <Text style={styles.sectionTitle}>Closed</Text> : null}
+          </>
+        }
+        renderItem={({ item }) => (
+          <Pressable
+            style={styles.positionCard}
+            onPress={() => navigation.navigate("TradeDetail", { tradeId: item.id })}
+          >
+            <Text style={styles.notificationTitle}>
+              #{item.id} {item.symbol} {item.side.toUpperCase()} {item.quantity}
+            </Text>
+            <Text style={styles.panelLine}>
+              {item.entry_price} → {item.close_price} •{" "}
+              <Text style={item.pnl >= 0 ? styles.pnlPositive : styles.pnlNegative}>PnL {item.pnl.toFixed(4)}</Text>
+            </Text>
+          </Pressable>
+        )}
+      />
+    </View>
+  );
+}
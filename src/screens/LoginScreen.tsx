@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Pressable, Text, TextInput, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { ApiDefaults } from "../api";
+import { Feedback } from "../components/Feedback";
+import { MOCK_BASE_URL, isMockBaseUrl } from "../mockBackend";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+export function LoginScreen() {
+  const { email, setEmail, apiBaseUrl, setApiBaseUrl, authNotice, login } = useAppStore();
+  const request = useRequest();
+  const [password, setPassword] = useState("");
+
+  async function handleLogin(): Promise<void> {
+    await request.run(() => login(password));
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.centerContainer}>
+        <View style={styles.authCard}>
+          <Text style={styles.brandTitle}>Apex Scalper</Text>
+          <Text style={styles.brandSubtitle}>Login to secure your trading journey</Text>
+
+          <Text style={styles.inputLabel}>Email</Text>
+          <TextInput
+            style={styles.input}
+            value={email}
+            onChangeText={setEmail}
+            autoCapitalize="none"
+            keyboardType="email-address"
+            placeholder="you@example.com"
+            placeholderTextColor="#6B7280"
+          />
+
+          <Text style={styles.inputLabel}>Password</Text>
+          <TextInput
+            style={styles.input}
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry
+            placeholder="••••••••"
+            placeholderTextColor="#6B7280"
+          />
+
+          <Text style={styles.inputLabel}>API URL</Text>
+          <TextInput
+            style={styles.input}
+            value={apiBaseUrl}
+            onChangeText={setApiBaseUrl}
+            autoCapitalize="none"
+            placeholder="http://127.0.0.1:8000"
+            placeholderTextColor="#6B7280"
+          />
+
+          <Pressable
+            style={styles.ghostButton}
+            onPress={() => setApiBaseUrl(isMockBaseUrl(apiBaseUrl) ? ApiDefaults.baseUrl : MOCK_BASE_URL)}
+          >
+            <Text style={styles.ghostButtonText}>
+              {isMockBaseUrl(apiBaseUrl) ? "Use real backend" : "Use demo backend"}
+            </Text>
+          </Pressable>
+
+          <Pressable style={styles.primaryButton} onPress={handleLogin}>
+            <Text style={styles.primaryButtonText}>Login & Continue</Text>
+          </Pressable>
+          {authNotice && !request.error ? <Text style={styles.errorText}>{authNotice}</Text> : null}
+          <Feedback request={request} />
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
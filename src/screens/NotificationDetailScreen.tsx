@@ -0,0 +1,60 @@
+import { useRoute } from "@react-navigation/native";
+import { useEffect, useState } from "react";
+import { Pressable, ScrollView, Text, View } from "react-native";
+
+import { NotificationItem, getNotification } from "../api";
+import { Feedback } from "../components/Feedback";
+import { RootRoute } from "../navigation/types";
+import { eventTypeLabel, notificationTarget } from "../notifications";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useOpenNotification } from "../useOpenNotification";
+import { useRequest } from "../useRequest";
+
+export function NotificationDetailScreen() {
+  const { notificationId } = useRoute<RootRoute<"NotificationDetail">>().params;
+  const { userId, apiBaseUrl, notifications, markNotificationsRead } = useAppStore();
+  const openNotification = useOpenNotification();
+  const request = useRequest();
+  // The store only holds the latest page, so older notifications and deep links are fetched by id; a cached
+  // copy is only shown while that request is in flight.
+  const [notification, setNotification] = useState<NotificationItem | null>(
+    () => notifications.find((item) => item.id === notificationId) ?? null,
+  );
+
+  useEffect(() => {
+    request.run(() => getNotification(userId, notificationId, apiBaseUrl)).then((loaded) => {
+      if (!loaded) {
+        return;
+      }
+      setNotification(loaded);
+      if (!loaded.read) {
+        markNotificationsRead([loaded.id]).catch(() => undefined);
+      }
+    });
+  }, [notificationId]);
+
+  return (
+    <ScrollView style={styles.safeArea} contentContainerStyle={styles.container}>
+      {notification ? (
+        <View style={styles.heroCard}>
+          <Text style={styles.heroTitle}>{notification.title}</Text>
+          <Text style={styles.heroSubtitle}>
+            {eventTypeLabel(notification.event_type)} • {new Date(notification.created_at).toLocaleString()}
+          </Text>
+          <Text style={styles.notificationBody}>{notification.message}</Text>
+          {notificationTarget(notification) ? (
+            <Pressable style={styles.ghostButton} onPress={() => openNotification(notification)}>
+              <Text style={styles.ghostButtonText}>
+                {notification.trade_id !== undefined ? "Open trade" : "Open bot status"}
+              </Text>
+            </Pressable>
+          ) : null}
+        </View>
+      ) : request.loading ? null : (
+        <Text style={styles.panelLine}>This notification is no longer available.</Text>
+      )}
+      <Feedback request={request} />
+    </ScrollView>
+  );
+}
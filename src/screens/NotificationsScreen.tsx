@@ -0,0 +1,169 @@
+import { useEffect, useRef, useState } from "react";
+import { ActivityIndicator, FlatList, Pressable, Text, View } from "react-native";
+
+import { NotificationItem, getNotifications } from "../api";
+import { Feedback } from "../components/Feedback";
+import { OptionGroup } from "../components/OptionGroup";
+import { NOTIFICATION_EVENT_TYPES, eventTypeLabel } from "../notifications";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useOpenNotification } from "../useOpenNotification";
+import { useRequest } from "../useRequest";
+
+const NOTIFICATIONS_PAGE_SIZE = 20;
+
+const EVENT_TYPE_OPTIONS = [{ value: "", label: "All" }, ...NOTIFICATION_EVENT_TYPES];
+
+export function NotificationsScreen() {
+  const openNotification = useOpenNotification();
+  const { userId, apiBaseUrl, notifications, unreadCount, setUnreadCount, markNotificationsRead, dismissNotification } =
+    useAppStore();
+  const request = useRequest();
+  const [eventType, setEventType] = useState("");
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [items, setItems] = useState<NotificationItem[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    loadPage(true);
+  }, [eventType, unreadOnly]);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  // Live pushes only carry the newest items; merge them in so the open list does not go stale.
+  useEffect(() => {
+    setItems((current) => {
+      const known = new Set(current.map((item) => item.id));
+      const fresh = notifications.filter(
+        (item) =>
+          !known.has(item.id) &&
+          (!eventType || item.event_type === eventType) &&
+          (!unreadOnly || !item.read) &&
+          (!current.length || item.created_at >= current[0].created_at),
+      );
+      return fresh.length ? [...fresh, ...current] : current;
+    });
+  }, [notifications]);
+
+  async function loadPage(reset: boolean): Promise<void> {
+    if (!reset && (loadingMore || !cursor)) {
+      return;
+    }
+    controller.current?.abort();
+    const next = new AbortController();
+    controller.current = next;
+    if (!reset) {
+      setLoadingMore(true);
+    }
+    const page = await request.run(() =>
+      getNotifications(
+        userId,
+        {
+          cursor: reset ? undefined : cursor ?? undefined,
+          limit: NOTIFICATIONS_PAGE_SIZE,
+          event_type: eventType || undefined,
+          unread_only: unreadOnly || undefined,
+        },
+        apiBaseUrl,
+        { signal: next.signal },
+      ),
+    );
+    setLoadingMore(false);
+    if (!page || next.signal.aborted) {
+      return;
+    }
+    setItems((current) => (reset ? page.items : [...current, ...page.items]));
+    setCursor(page.next_cursor);
+    setUnreadCount(page.unread_count);
+  }
+
+  function markLocallyRead(ids?: number[]): void {
+    setItems((current) =>
+      unreadOnly && !ids
+        ? []
+        : current.map((item) => (!ids || ids.includes(item.id) ? { ...item, read: true } : item)),
+    );
+  }
+
+  async function handleMarkAllRead(): Promise<void> {
+    const done = await request.run(() => markNotificationsRead());
+    if (done !== null) {
+      markLocallyRead();
+    }
+  }
+
+  async function handleDismiss(notification: NotificationItem): Promise<void> {
+    const done = await request.run(() => dismissNotification(notification));
+    if (done !== null) {
+      setItems((current) => current.filter((item) => item.id !== notification.id));
+    }
+  }
+
+  function handleOpen(notification: NotificationItem): void {
+    if (!notification.read) {
+      markLocallyRead([notification.id]);
+    }
+    openNotification(notification);
+  }
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={styles.container}
+        data={items}
+        keyExtractor={(item) => String(item.id)}
+        onEndReached={() => loadPage(false)}
+        onEndReachedThreshold={0.4}
+        ListHeaderComponent={
+          <View style={styles.panel}>
+            <Text style={styles.panelTitle}>Notifications</Text>
+            <Text style={styles.panelLine}>{unreadCount} unread</Text>
+            <OptionGroup options={EVENT_TYPE_OPTIONS.slice(0, 3)} selected={eventType} onSelect={setEventType} />
+            <OptionGroup options={EVENT_TYPE_OPTIONS.slice(3)} selected={eventType} onSelect={setEventType} />
+            <OptionGroup
+              options={[
+                { value: "all", label: "Everything" },
+                { value: "unread", label: "Unread only" },
+              ]}
+              selected={unreadOnly ? "unread" : "all"}
+              onSelect={(value) => setUnreadOnly(value === "unread")}
+            />
+            <Pressable
+              style={[styles.ghostButton, !unreadCount && styles.buttonDisabled]}
+              onPress={handleMarkAllRead}
+              disabled={!unreadCount}
+            >
+              <Text style={styles.ghostButtonText}>Mark all read</Text>
+            </Pressable>
+            <Feedback request={request} />
+          </View>
+        }
+        renderItem={({ item }) => (
+          <Pressable
+            style={[styles.notificationCard, !item.read && styles.notificationUnread]}
+            onPress={() => handleOpen(item)}
+          >
+            <View style={styles.heroTopRow}>
+              <Text style={styles.notificationTitle}>{item.title}</Text>
+              <Text style={styles.panelLine}>{eventTypeLabel(item.event_type)}</Text>
+            </View>
+            <Text style={styles.notificationBody}>{item.message}</Text>
+            <View style={styles.heroTopRow}>
+              <Text style={styles.panelLine}>{new Date(item.created_at).toLocaleString()}</Text>
+              <Pressable onPress={() => handleDismiss(item)} hitSlop={8}>
+                <Text style={styles.ghostButtonText}>Dismiss</Text>
+              </Pressable>
+            </View>
+          </Pressable>
+        )}
+        ListEmptyComponent={request.loading ? null : <Text style={styles.panelLine}>No notifications to show.</Text>}
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator size="small" color="#A78BFA" style={styles.feedbackSpinner} /> : null
+        }
+      />
+    </View>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { Pressable, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+
+const ONBOARDING_SLIDES = [
+  {
+    title: "Safe by default",
+    body: "Daily limits and capital guards stop risky behavior, and paper mode lets you try settings risk-free.",
+  },
+  {
+    title: "Connect MT5 in minutes",
+    body: "Add broker, login, password, and server to securely link your account.",
+  },
+  {
+    title: "AI-filtered scalping",
+    body: "Trades are only executed when confidence and market conditions are acceptable.",
+  },
+];
+
+export function OnboardingScreen() {
+  const { updateProgress } = useAppStore();
+  const [page, setPage] = useState(0);
+  const current = ONBOARDING_SLIDES[page];
+  const lastPage = page === ONBOARDING_SLIDES.length - 1;
+
+  // Marking onboarding done removes this screen from the setup stack, which moves on to Connect.
+  function handleNext(): void {
+    if (lastPage) {
+      updateProgress({ onboarded: true });
+      return;
+    }
+    setPage((value) => value + 1);
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.centerContainer}>
+        <View style={styles.authCard}>
+          <Text style={styles.progressText}>
+            Step {page + 1} of {ONBOARDING_SLIDES.length}
+          </Text>
+          <Text style={styles.onboardingTitle}>{current.title}</Text>
+          <Text style={styles.onboardingBody}>{current.body}</Text>
+
+          <View style={styles.rowButtons}>
+            <Pressable style={styles.ghostButton} onPress={() => updateProgress({ onboarded: true })}>
+              <Text style={styles.ghostButtonText}>Skip</Text>
+            </Pressable>
+            <Pressable style={styles.primaryButton} onPress={handleNext}>
+              <Text style={styles.primaryButtonText}>{lastPage ? "Finish" : "Next"}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
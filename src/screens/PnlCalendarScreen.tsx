@@ -0,0 +1,173 @@
+import { useRoute } from "@react-navigation/native";
+import { useEffect, useRef, useState } from "react";
+import { FlatList, Pressable, Text, View } from "react-native";
+
+import { ClosedTradeItem, DailyPnlDay, TradingMode, getAllClosedTrades, getDailyPnlRange } from "../api";
+import { Feedback } from "../components/Feedback";
+import { OptionGroup } from "../components/OptionGroup";
+import { PaperNotice, TRADING_MODE_OPTIONS } from "../components/TradingMode";
+import { RootRoute } from "../navigation/types";
+import { CalendarMonth, currentMonth, heatColor, monthGrid, monthLabel, monthRange, shiftMonth } from "../pnlCalendar";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export function PnlCalendarScreen() {
+  const { userId, apiBaseUrl } = useAppStore();
+  const request = useRequest();
+  const [mode, setMode] = useState<TradingMode>(useRoute<RootRoute<"PnlCalendar">>().params?.mode ?? "live");
+  const [calendarMonth, setCalendarMonth] = useState<CalendarMonth>(() => currentMonth());
+  const [pnlDays, setPnlDays] = useState<DailyPnlDay[]>([]);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [dayTrades, setDayTrades] = useState<ClosedTradeItem[]>([]);
+  // Switching month, mode or day cancels the previous load, so a late response never shows under the wrong label.
+  const monthController = useRef<AbortController | null>(null);
+  const dayController = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    loadPnlMonth(calendarMonth, mode);
+    return () => {
+      monthController.current?.abort();
+      dayController.current?.abort();
+    };
+  }, []);
+
+  async function loadPnlMonth(month: CalendarMonth, monthMode: TradingMode): Promise<void> {
+    monthController.current?.abort();
+    dayController.current?.abort();
+    const controller = new AbortController();
+    monthController.current = controller;
+    setCalendarMonth(month);
+    setMode(monthMode);
+    setSelectedDay(null);
+    setDayTrades([]);
+    setPnlDays([]);
+    const { from, to } = monthRange(month);
+    const days = await request.run(() =>
+      getDailyPnlRange(userId, from, to, monthMode, apiBaseUrl, { signal: controller.signal }),
+    );
+    if (days && !controller.signal.aborted) {
+      setPnlDays(days);
+    }
+  }
+
+  async function handleSelectDay(date: string): Promise<void> {
+    dayController.current?.abort();
+    const controller = new AbortController();
+    dayController.current = controller;
+    setSelectedDay(date);
+    setDayTrades([]);
+    const trades = await request.run(() =>
+      getAllClosedTrades(
+        userId,
+        { from: date, to: date, sort: "closed_at", order: "asc", mode },
+        apiBaseUrl,
+        { signal: controller.signal },
+      ),
+    );
+    if (trades && !controller.signal.aborted) {
+      setDayTrades(trades);
+    }
+  }
+
+  const weeks = monthGrid(calendarMonth, pnlDays);
+  const maxAbs = Math.max(0, ...pnlDays.map((day) => Math.abs(day.realized_pnl)));
+  const monthTotal = pnlDays.reduce((total, day) => total + day.realized_pnl, 0);
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={styles.container}
+        data={dayTrades}
+        keyExtractor={(item) => String(item.id)}
+        ListHeaderComponent={
+          <>
+            <View style={styles.heroCard}>
+              <Text style={styles.heroTitle}>{mode === "paper" ? "Paper PnL Calendar" : "PnL Calendar"}</Text>
+              <Text style={styles.heroSubtitle}>
+                {monthLabel(calendarMonth)} • realized{" "}
+                <Text style={monthTotal >= 0 ? styles.pnlPositive : styles.pnlNegative}>{monthTotal.toFixed(2)}</Text>
+              </Text>
+              <View style={styles.rowButtons}>
+                <Pressable style={styles.ghostButton} onPress={() => loadPnlMonth(shiftMonth(calendarMonth, -1), mode)}>
+                  <Text style={styles.ghostButtonText}>‹ Prev</Text>
+                </Pressable>
+                <Pressable style={styles.ghostButton} onPress={() => loadPnlMonth(shiftMonth(calendarMonth, 1), mode)}>
+                  <Text style={styles.ghostButtonText}>Next ›</Text>
+                </Pressable>
+              </View>
+              <OptionGroup
+                options={TRADING_MODE_OPTIONS}
+                selected={mode}
+                onSelect={(value) => loadPnlMonth(calendarMonth, value)}
+              />
+              {mode === "paper" ? (
+                <PaperNotice>Simulated results from paper trading. Live PnL is not included.</PaperNotice>
+              ) : null}
+              <Feedback request={request} />
+            </View>
+
+            <View style={styles.panel}>
+              <View style={styles.calendarRow}>
+                {WEEKDAY_LABELS.map((label) => (
+                  <Text key={label} style={styles.calendarHeader}>
+                    {label}
+                  </Text>
+                ))}
+              </View>
+              {weeks.map((week, weekIndex) => (
+                <View key={weekIndex} style={styles.calendarRow}>
+                  {week.map((cell, dayIndex) =>
+                    cell ? (
+                      <Pressable
+                        key={cell.date}
+                        style={[
+                          styles.calendarCell,
+                          { backgroundColor: heatColor(cell.pnl?.realized_pnl ?? 0, maxAbs) },
+                          selectedDay === cell.date && styles.calendarCellSelected,
+                        ]}
+                        onPress={() => handleSelectDay(cell.date)}
+                      >
+                        <Text style={styles.calendarDay}>{cell.day}</Text>
+                      </Pressable>
+                    ) : (
+                      <View key={`empty-${dayIndex}`} style={styles.calendarCell} />
+                    ),
+                  )}
+                </View>
+              ))}
+            </View>
+
+            {selectedDay ? (
+              <Text style={styles.sectionTitle}>
+                {selectedDay} • {pnlDays.find((day) => day.date === selectedDay)?.realized_pnl.toFixed(2) ?? "0.00"}
+              </Text>
+            ) : (
+              <Text style={styles.panelLine}>Tap a day to see its trades.</Text>
+            )}
+          </>
+        }
+        renderItem={({ item }) => (
+          <View style={styles.positionCard}>
+            <View style={styles.heroTopRow}>
+              <Text style={styles.notificationTitle}>
+                {item.symbol} • {item.side.toUpperCase()} {item.quantity}
+              </Text>
+              <Text style={item.pnl >= 0 ? styles.pnlPositive : styles.pnlNegative}>{item.pnl.toFixed(4)}</Text>
+            </View>
+            <Text style={styles.panelLine}>
+              {new Date(item.opened_at).toLocaleTimeString()} → {new Date(item.closed_at).toLocaleTimeString()} •{" "}
+              {item.close_reason}
+            </Text>
+          </View>
+        )}
+        ListEmptyComponent={
+          selectedDay && !request.loading ? <Text style={styles.panelLine}>No trades closed that day.</Text> : null
+        }
+      />
+    </View>
+  );
+}
@@ -0,0 +1,153 @@
+import { useNavigation } from "@react-navigation/native";
+import { useEffect, useState } from "react";
+import { FlatList, Pressable, Text, View } from "react-native";
+
+import { OpenTradeItem, closeAllTrades, closeTrade, getOpenTrades } from "../api";
+import { confirm } from "../confirm";
+import { Feedback } from "../components/Feedback";
+import { PaperBadge } from "../components/TradingMode";
+import { formatHeld } from "../format";
+import { RootNavigation } from "../navigation/types";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+export function PositionsScreen() {
+  const navigation = useNavigation<RootNavigation>();
+  const { userId, apiBaseUrl, openTrades, setOpenTrades, recordClosedTrades } = useAppStore();
+  const request = useRequest();
+  const [closingTradeIds, setClosingTradeIds] = useState<number[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    request.run(() => getOpenTrades(userId, apiBaseUrl)).then((trades) => {
+      if (trades) {
+        setOpenTrades(trades);
+      }
+    });
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Paper positions are listed with the live ones but totalled apart, so the headline stays the real exposure.
+  const paperTrades = openTrades.filter((trade) => trade.mode === "paper");
+  const totalUnrealized = openTrades
+    .filter((trade) => trade.mode === "live")
+    .reduce((total, trade) => total + (trade.unrealized_pnl ?? 0), 0);
+  const paperUnrealized = paperTrades.reduce((total, trade) => total + (trade.unrealized_pnl ?? 0), 0);
+
+  async function handleCloseTrade(trade: OpenTradeItem): Promise<void> {
+    const confirmed = await confirm(
+      "Close position?",
+      `${trade.side.toUpperCase()} ${trade.quantity} ${trade.symbol} will be closed at market.`,
+      "Close",
+    );
+    if (!confirmed) {
+      return;
+    }
+    setClosingTradeIds((ids) => [...ids, trade.id]);
+    const closed = await request.run(() => closeTrade(userId, trade.id, apiBaseUrl));
+    setClosingTradeIds((ids) => ids.filter((id) => id !== trade.id));
+    if (!closed) {
+      return;
+    }
+    recordClosedTrades([closed]);
+    request.setSuccessMessage(`${closed.symbol} closed • PnL ${closed.pnl.toFixed(4)}`);
+  }
+
+  async function handleCloseAll(): Promise<void> {
+    if (!openTrades.length) {
+      return;
+    }
+    const confirmed = await confirm(
+      "Close all positions?",
+      `All ${openTrades.length} open positions will be closed at market.`,
+      "Close all",
+    );
+    if (!confirmed) {
+      return;
+    }
+    setClosingTradeIds(openTrades.map((trade) => trade.id));
+    const result = await request.run(() => closeAllTrades(userId, apiBaseUrl));
+    setClosingTradeIds([]);
+    if (!result) {
+      return;
+    }
+    recordClosedTrades(result.closed);
+    if (result.failed.length) {
+      request.setError(
+        `Could not close ${result.failed.length} position(s): ` +
+          result.failed.map((failure) => `#${failure.trade_id} ${failure.detail}`).join("; "),
+      );
+    }
+    if (result.closed.length) {
+      request.setSuccessMessage(`Closed ${result.closed.length} position(s)`);
+    }
+  }
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={styles.container}
+        data={openTrades}
+        keyExtractor={(item) => String(item.id)}
+        ListHeaderComponent={
+          <View style={styles.heroCard}>
+            <Text style={styles.heroTitle}>Open Positions</Text>
+            <Text style={styles.heroSubtitle}>
+              {openTrades.length - paperTrades.length} live • Unrealized{" "}
+              <Text style={totalUnrealized >= 0 ? styles.pnlPositive : styles.pnlNegative}>
+                {totalUnrealized.toFixed(2)}
+              </Text>
+            </Text>
+            {paperTrades.length ? (
+              <Text style={styles.heroSubtitle}>
+                {paperTrades.length} paper • Simulated unrealized{" "}
+                <Text style={paperUnrealized >= 0 ? styles.pnlPositive : styles.pnlNegative}>
+                  {paperUnrealized.toFixed(2)}
+                </Text>
+              </Text>
+            ) : null}
+            <Pressable
+              style={[styles.dangerButton, !openTrades.length && styles.buttonDisabled]}
+              onPress={handleCloseAll}
+              disabled={!openTrades.length || closingTradeIds.length > 0}
+            >
+              <Text style={styles.dangerButtonText}>Close all</Text>
+            </Pressable>
+            <Feedback request={request} />
+          </View>
+        }
+        renderItem={({ item }) => {
+          const closing = closingTradeIds.includes(item.id);
+          return (
+            <Pressable
+              style={styles.positionCard}
+              onPress={() => navigation.navigate("TradeDetail", { tradeId: item.id })}
+            >
+              <View style={styles.heroTopRow}>
+                <Text style={styles.notificationTitle}>
+                  {item.symbol} • {item.side.toUpperCase()} {item.quantity}
+                </Text>
+                <PaperBadge mode={item.mode} />
+                <Text style={(item.unrealized_pnl ?? 0) >= 0 ? styles.pnlPositive : styles.pnlNegative}>
+                  {item.unrealized_pnl !== undefined ? item.unrealized_pnl.toFixed(2) : "—"}
+                </Text>
+              </View>
+              <Text style={styles.panelLine}>
+                Entry {item.entry_price}
+                {item.current_price !== undefined ? ` • Now ${item.current_price}` : ""}
+              </Text>
+              <Text style={styles.panelLine}>Held {formatHeld(item.opened_at, now)}</Text>
+              <Pressable style={styles.ghostButton} onPress={() => handleCloseTrade(item)} disabled={closing}>
+                <Text style={styles.ghostButtonText}>{closing ? "Closing…" : "Close"}</Text>
+              </Pressable>
+            </Pressable>
+          );
+        }}
+        ListEmptyComponent={<Text style={styles.panelLine}>No open positions.</Text>}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { FlatList, Pressable, Text, TextInput, View } from "react-native";
+
+import { biometricsAvailable, isValidPin } from "../appLock";
+import { Feedback } from "../components/Feedback";
+import { OptionGroup } from "../components/OptionGroup";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+const ON_OFF_OPTIONS: { value: "on" | "off"; label: string }[] = [
+  { value: "on", label: "On" },
+  { value: "off", label: "Off" },
+];
+
+export function SecurityScreen() {
+  const { appLock, setAppLock, reauthenticate } = useAppStore();
+  const request = useRequest();
+  const [canUseBiometrics, setCanUseBiometrics] = useState(false);
+  const [biometrics, setBiometrics] = useState(appLock.biometrics);
+  const [pin, setPin] = useState("");
+  const [pinConfirmation, setPinConfirmation] = useState("");
+
+  useEffect(() => {
+    biometricsAvailable().then(setCanUseBiometrics);
+  }, []);
+
+  // Returns the new PIN, undefined when none was typed, or null after reporting why it was rejected.
+  function pinToSave(required: boolean): string | undefined | null {
+    if (!pin && !required) {
+      return undefined;
+    }
+    if (!isValidPin(pin)) {
+      request.setError("The PIN must be 4 to 8 digits");
+      return null;
+    }
+    if (pin !== pinConfirmation) {
+      request.setError("The PINs do not match");
+      return null;
+    }
+    return pin;
+  }
+
+  async function save(enabled: boolean, newPin: string | undefined, message: string): Promise<void> {
+    const saved = await request.run(async () => {
+      await setAppLock({ enabled, biometrics: enabled && canUseBiometrics && biometrics }, newPin);
+      return true;
+    });
+    if (saved) {
+      setPin("");
+      setPinConfirmation("");
+      request.setSuccessMessage(message);
+    }
+  }
+
+  async function handleTurnOn(): Promise<void> {
+    const newPin = pinToSave(true);
+    if (newPin) {
+      await save(true, newPin, "App lock is on. It locks whenever the app goes to the background.");
+    }
+  }
+
+  async function handleUpdate(): Promise<void> {
+    const newPin = pinToSave(false);
+    if (newPin === null || !(await reauthenticate("Confirm to change the app lock"))) {
+      return;
+    }
+    await save(true, newPin, newPin ? "PIN changed" : "App lock updated");
+  }
+
+  async function handleTurnOff(): Promise<void> {
+    if (await reauthenticate("Confirm to turn the app lock off")) {
+      await save(false, undefined, "App lock is off");
+    }
+  }
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        data={[]}
+        contentContainerStyle={styles.container}
+        renderItem={undefined as never}
+        ListHeaderComponent={
+          <>
+            <View style={styles.heroCard}>
+              <Text style={styles.heroTitle}>App lock</Text>
+              <Text style={styles.heroSubtitle}>
+                {appLock.enabled
+                  ? "On. The app locks when it goes to the background."
+                  : "Off. Anyone holding your unlocked phone can use the app."}
+              </Text>
+              <Text style={styles.panelLine}>
+                Starting live trading, saving trading or risk settings, saving MT5 accounts and activating a license
+                always ask you to confirm, with your PIN, biometrics or device passcode when one is set up.
+              </Text>
+            </View>
+
+            <View style={styles.panel}>
+              <Text style={styles.panelTitle}>{appLock.enabled ? "Change PIN" : "Choose a PIN"}</Text>
+              {appLock.enabled ? <Text style={styles.panelLine}>Leave blank to keep the current PIN.</Text> : null}
+              <Text style={styles.inputLabel}>PIN (4 to 8 digits)</Text>
+              <TextInput
+                style={styles.input}
+                value={pin}
+                onChangeText={(value) => setPin(value.replace(/\D/g, ""))}
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={8}
+                placeholderTextColor="#6B7280"
+              />
+              <Text style={styles.inputLabel}>Repeat PIN</Text>
+              <TextInput
+                style={styles.input}
+                value={pinConfirmation}
+                onChangeText={(value) => setPinConfirmation(value.replace(/\D/g, ""))}
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={8}
+                placeholderTextColor="#6B7280"
+              />
+
+              <Text style={styles.panelTitle}>Biometrics</Text>
+              {canUseBiometrics ? (
+                <OptionGroup
+                  options={ON_OFF_OPTIONS}
+                  selected={biometrics ? "on" : "off"}
+                  onSelect={(value) => setBiometrics(value === "on")}
+                />
+              ) : (
+                <Text style={styles.panelLine}>No fingerprint or face is enrolled on this device.</Text>
+              )}
+
+              {appLock.enabled ? (
+                <View style={styles.rowButtons}>
+                  <Pressable style={styles.ghostButton} onPress={handleTurnOff}>
+                    <Text style={styles.ghostButtonText}>Turn off</Text>
+                  </Pressable>
+                  <Pressable style={styles.primaryButton} onPress={handleUpdate}>
+                    <Text style={styles.primaryButtonText}>Save</Text>
+                  </Pressable>
+                </View>
+              ) : (
+                <Pressable style={styles.primaryButton} onPress={handleTurnOn}>
+                  <Text style={styles.primaryButtonText}>Turn on app lock</Text>
+                </Pressable>
+              )}
+              <Feedback request={request} />
+            </View>
+          </>
+        }
+      />
+    </View>
+  );
+}
@@ -0,0 +1,202 @@
+import { useNavigation } from "@react-navigation/native";
+import { useEffect, useState } from "react";
+import { FlatList, Pressable, Text, View } from "react-native";
+
+import {
+  getBotStatus,
+  getMT5Accounts,
+  getRiskConfig,
+  getSessionConfig,
+  getTradingConfig,
+  saveConfiguration,
+} from "../api";
+import { ConfigFields } from "../components/ConfigFields";
+import { Feedback } from "../components/Feedback";
+import { PresetsPanel } from "../components/PresetsPanel";
+import { ConfigRequests, buildConfigRequests, changedSections, configurationPayload, formFromConfig } from "../configForm";
+import { confirm } from "../confirm";
+import { TabNavigation } from "../navigation/types";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+import { hasErrors, validateConfigForm } from "../validation";
+
+export function SettingsScreen() {
+  const navigation = useNavigation<TabNavigation>();
+  const {
+    userId,
+    apiBaseUrl,
+    configForm,
+    updateConfigForm,
+    setSchedule,
+    setRiskConfig,
+    reauthenticate,
+    activeAccount,
+    applyAccounts,
+    botStatus,
+    setBotStatus,
+    logout,
+  } = useAppStore();
+  const request = useRequest();
+  const [savedConfig, setSavedConfig] = useState<ConfigRequests | null>(null);
+  const [showErrors, setShowErrors] = useState(false);
+
+  const errors = validateConfigForm(configForm);
+  const pendingSections = savedConfig ? changedSections(savedConfig, buildConfigRequests(userId, configForm)) : [];
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  async function loadSettings(): Promise<void> {
+    const loaded = await request.run(() =>
+      Promise.all([
+        getTradingConfig(userId, apiBaseUrl),
+        getRiskConfig(userId, apiBaseUrl),
+        getSessionConfig(userId, apiBaseUrl),
+        getMT5Accounts(userId, apiBaseUrl),
+        getBotStatus(userId, apiBaseUrl),
+      ]),
+    );
+    if (!loaded) {
+      return;
+    }
+    const [trading, risk, session, accounts, bot] = loaded;
+    const form = formFromConfig(trading, risk, session);
+    updateConfigForm(form);
+    // Compared against what the form produces, so a lossless round trip never counts as a change.
+    setSavedConfig(buildConfigRequests(userId, form));
+    setSchedule(session.schedule ?? null);
+    setRiskConfig(risk);
+    applyAccounts(accounts);
+    setBotStatus(bot);
+  }
+
+  async function handleSave(): Promise<void> {
+    if (!savedConfig) {
+      return;
+    }
+    setShowErrors(true);
+    if (hasErrors(errors)) {
+      request.setSuccessMessage(null);
+      request.setError("Fix the highlighted fields before saving");
+      return;
+    }
+
+    const requests = buildConfigRequests(userId, configForm);
+    const changed = changedSections(savedConfig, requests);
+    if (!changed.length) {
+      request.setError(null);
+      request.setSuccessMessage("No changes to save");
+      return;
+    }
+
+    if (botStatus?.running) {
+      const confirmed = await confirm(
+        "Bot is running",
+        "The bot is trading right now. New settings apply to trades it opens from now on. Save anyway?",
+        "Save",
+      );
+      if (!confirmed) {
+        return;
+      }
+    }
+
+    if (
+      (changed.includes("trading") || changed.includes("risk")) &&
+      !(await reauthenticate("Confirm to save trading and risk settings"))
+    ) {
+      return;
+    }
+
+    const saved = await request.run(() => saveConfiguration(configurationPayload(requests, changed), apiBaseUrl));
+    if (saved === null) {
+      return;
+    }
+    setSavedConfig(requests);
+    setSchedule(requests.session.schedule ?? null);
+    setRiskConfig(requests.risk);
+    request.setSuccessMessage(`Saved ${changed.join(", ")} settings`);
+  }
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        data={[]}
+        contentContainerStyle={styles.container}
+        renderItem={undefined as never}
+        ListHeaderComponent={
+          <>
+            <View style={styles.heroCard}>
+              <Text style={styles.heroTitle}>Settings</Text>
+              <Text style={styles.heroSubtitle}>Loaded from the backend. Only changed sections are saved.</Text>
+              {botStatus?.running ? (
+                <Text style={styles.warningText}>
+                  The bot is running. Changes apply to new trades and you will be asked to confirm.
+                </Text>
+              ) : null}
+            </View>
+
+            <View style={styles.panel}>
+              <Text style={styles.panelTitle}>MT5 account</Text>
+              <Text style={styles.panelLine}>
+                {activeAccount
+                  ? `${activeAccount.label} • ${activeAccount.login}@${activeAccount.server}`
+                  : "No active MT5 account"}
+              </Text>
+              <View style={styles.rowButtons}>
+                <Pressable style={styles.ghostButton} onPress={() => navigation.navigate("Accounts")}>
+                  <Text style={styles.ghostButtonText}>Manage accounts</Text>
+                </Pressable>
+                <Pressable style={styles.ghostButton} onPress={() => navigation.navigate("Diagnostics")}>
+                  <Text style={styles.ghostButtonText}>Latency</Text>
+                </Pressable>
+              </View>
+              <View style={styles.rowButtons}>
+                <Pressable style={styles.ghostButton} onPress={() => navigation.navigate("Alerts")}>
+                  <Text style={styles.ghostButtonText}>Device alerts</Text>
+                </Pressable>
+                <Pressable style={styles.ghostButton} onPress={() => navigation.navigate("Security")}>
+                  <Text style={styles.ghostButtonText}>App lock</Text>
+                </Pressable>
+              </View>
+              <View style={styles.rowButtons}>
+                <Pressable style={styles.ghostButton} onPress={logout}>
+                  <Text style={styles.ghostButtonText}>Log out</Text>
+                </Pressable>
+              </View>
+            </View>
+
+            {savedConfig ? <PresetsPanel form={configForm} onApply={updateConfigForm} request={request} /> : null}
+
+            {savedConfig ? (
+              <View style={styles.panel}>
+                <Text style={styles.panelTitle}>Trading, risk & session</Text>
+                <ConfigFields form={configForm} onChange={updateConfigForm} errors={showErrors ? errors : {}} />
+
+                <Text style={styles.panelLine}>
+                  {pendingSections.length ? `Unsaved: ${pendingSections.join(", ")}` : "No unsaved changes"}
+                </Text>
+                <Pressable
+                  style={[styles.primaryButton, !pendingSections.length && styles.buttonDisabled]}
+                  onPress={handleSave}
+                  disabled={!pendingSections.length}
+                >
+                  <Text style={styles.primaryButtonText}>Save changes</Text>
+                </Pressable>
+                <Feedback request={request} />
+              </View>
+            ) : (
+              <View style={styles.panel}>
+                <Feedback request={request} />
+                <Pressable style={styles.ghostButton} onPress={loadSettings}>
+                  <Text style={styles.ghostButtonText}>Retry</Text>
+                </Pressable>
+              </View>
+            )}
+          </>
+        }
+      />
+    </View>
+  );
+}
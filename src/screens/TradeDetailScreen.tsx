@@ -0,0 +1,80 @@
+import { useRoute } from "@react-navigation/native";
+import { useEffect, useState } from "react";
+import { ScrollView, Text, View } from "react-native";
+
+import { ClosedTradeItem, getClosedTrade } from "../api";
+import { Feedback } from "../components/Feedback";
+import { PaperNotice } from "../components/TradingMode";
+import { formatHeld } from "../format";
+import { RootRoute } from "../navigation/types";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+// Reached from trade lists and from apexscalper://trades/:id links. Open trades come from the
+// live store; anything else is fetched as a closed trade.
+export function TradeDetailScreen() {
+  const { tradeId } = useRoute<RootRoute<"TradeDetail">>().params;
+  const { userId, apiBaseUrl, openTrades, closedTrades } = useAppStore();
+  const request = useRequest();
+  const openTrade = openTrades.find((trade) => trade.id === tradeId) ?? null;
+  const [closedTrade, setClosedTrade] = useState<ClosedTradeItem | null>(
+    () => closedTrades.find((trade) => trade.id === tradeId) ?? null,
+  );
+
+  useEffect(() => {
+    if (openTrade || closedTrade) {
+      return;
+    }
+    request.run(() => getClosedTrade(userId, tradeId, apiBaseUrl)).then((trade) => {
+      if (trade) {
+        setClosedTrade(trade);
+      }
+    });
+  }, [tradeId, openTrade === null]);
+
+  const trade = openTrade ?? closedTrade;
+  const pnl = openTrade ? openTrade.unrealized_pnl ?? 0 : closedTrade?.pnl ?? 0;
+
+  return (
+    <ScrollView style={styles.safeArea} contentContainerStyle={styles.container}>
+      <View style={styles.heroCard}>
+        <Text style={styles.heroTitle}>Trade #{tradeId}</Text>
+        {trade ? (
+          <Text style={styles.heroSubtitle}>
+            {trade.symbol} • {trade.side.toUpperCase()} {trade.quantity} • {openTrade ? "open" : "closed"}
+          </Text>
+        ) : null}
+        {trade?.mode === "paper" ? (
+          <PaperNotice>Paper trade. It was simulated and never sent to the broker.</PaperNotice>
+        ) : null}
+        <Feedback request={request} />
+      </View>
+
+      {trade ? (
+        <View style={styles.panel}>
+          <Text style={styles.panelLine}>
+            {openTrade ? "Unrealized" : "PnL"}{" "}
+            <Text style={pnl >= 0 ? styles.pnlPositive : styles.pnlNegative}>{pnl.toFixed(4)}</Text>
+          </Text>
+          <Text style={styles.panelLine}>Entry {trade.entry_price}</Text>
+          {openTrade ? (
+            <>
+              {openTrade.current_price !== undefined ? (
+                <Text style={styles.panelLine}>Now {openTrade.current_price}</Text>
+              ) : null}
+              <Text style={styles.panelLine}>Held {formatHeld(openTrade.opened_at, Date.now())}</Text>
+            </>
+          ) : closedTrade ? (
+            <>
+              <Text style={styles.panelLine}>Close {closedTrade.close_price}</Text>
+              <Text style={styles.panelLine}>Reason {closedTrade.close_reason}</Text>
+              <Text style={styles.panelLine}>Closed {new Date(closedTrade.closed_at).toLocaleString()}</Text>
+            </>
+          ) : null}
+          <Text style={styles.panelLine}>Opened {new Date(trade.opened_at).toLocaleString()}</Text>
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
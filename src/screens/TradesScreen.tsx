@@ -0,0 +1,255 @@
+import { useNavigation } from "@react-navigation/native";
+import { useEffect, useRef, useState } from "react";
+import { ActivityIndicator, FlatList, Pressable, Text, TextInput, View } from "react-native";
+
+import { ClosedTradeItem, ClosedTradesSort, TradingMode, getClosedTradesPage } from "../api";
+import { Feedback } from "../components/Feedback";
+import { OptionGroup } from "../components/OptionGroup";
+import { PaperBadge, PaperNotice, TRADING_MODE_OPTIONS } from "../components/TradingMode";
+import { TabNavigation } from "../navigation/types";
+import { useAppStore } from "../store";
+import { styles } from "../theme";
+import { useRequest } from "../useRequest";
+
+type HistoryFilters = {
+  mode: TradingMode;
+  symbol: string;
+  side: "" | "buy" | "sell";
+  closeReason: string;
+  from: string;
+  to: string;
+  sort: ClosedTradesSort;
+  order: "asc" | "desc";
+};
+
+const HISTORY_PAGE_SIZE = 25;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const emptyHistoryFilters: HistoryFilters = {
+  mode: "live",
+  symbol: "",
+  side: "",
+  closeReason: "",
+  from: "",
+  to: "",
+  sort: "closed_at",
+  order: "desc",
+};
+
+export function TradesScreen() {
+  const navigation = useNavigation<TabNavigation>();
+  const { userId, apiBaseUrl, openTrades } = useAppStore();
+  const request = useRequest();
+  const [historyFilters, setHistoryFilters] = useState<HistoryFilters>(emptyHistoryFilters);
+  // The filters behind the listed trades and their cursor. Paging uses these, never the fields being edited.
+  const [appliedHistoryFilters, setAppliedHistoryFilters] = useState<HistoryFilters>(emptyHistoryFilters);
+  const [historyItems, setHistoryItems] = useState<ClosedTradeItem[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [historyExhausted, setHistoryExhausted] = useState(false);
+  const [historyLoadingMore, setHistoryLoadingMore] = useState(false);
+  const historyController = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    applyHistoryFilters(emptyHistoryFilters);
+    return () => historyController.current?.abort();
+  }, []);
+
+  function updateHistoryFilter<K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]): void {
+    setHistoryFilters((current) => ({ ...current, [key]: value }));
+  }
+
+  function applyHistoryFilters(filters: HistoryFilters): void {
+    if ((filters.from && !DATE_PATTERN.test(filters.from)) || (filters.to && !DATE_PATTERN.test(filters.to))) {
+      request.setError("Dates must use the YYYY-MM-DD format");
+      return;
+    }
+    setAppliedHistoryFilters(filters);
+    loadHistory(filters, true);
+  }
+
+  function resetHistoryFilters(): void {
+    setHistoryFilters(emptyHistoryFilters);
+    applyHistoryFilters(emptyHistoryFilters);
+  }
+
+  function loadMoreHistory(): void {
+    if (!historyExhausted && !historyLoadingMore && historyCursor) {
+      loadHistory(appliedHistoryFilters, false);
+    }
+  }
+
+  async function loadHistory(filters: HistoryFilters, reset: boolean): Promise<void> {
+    const { mode, symbol, side, closeReason, from, to, sort, order } = filters;
+    historyController.current?.abort();
+    const controller = new AbortController();
+    historyController.current = controller;
+    if (!reset) {
+      setHistoryLoadingMore(true);
+    }
+    const page = await request.run(() =>
+      getClosedTradesPage(
+        userId,
+        {
+          cursor: reset ? undefined : historyCursor ?? undefined,
+          limit: HISTORY_PAGE_SIZE,
+          symbol: symbol.trim().toUpperCase() || undefined,
+          side: side || undefined,
+          close_reason: closeReason.trim() || undefined,
+          from: from || undefined,
+          to: to || undefined,
+          sort,
+          order,
+          mode,
+        },
+        apiBaseUrl,
+        { signal: controller.signal },
+      ),
+    );
+    setHistoryLoadingMore(false);
+    if (!page || controller.signal.aborted) {
+      return;
+    }
+    setHistoryItems((current) => (reset ? page.items : [...current, ...page.items]));
+    setHistoryCursor(page.next_cursor);
+    setHistoryExhausted(!page.next_cursor);
+  }
+
+  return (
+    <View style={styles.safeArea}>
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={styles.container}
+        data={historyItems}
+        keyExtractor={(item) => String(item.id)}
+        onEndReached={loadMoreHistory}
+        onEndReachedThreshold={0.4}
+        ListHeaderComponent={
+          <View style={styles.panel}>
+            <Text style={styles.panelTitle}>Trade History</Text>
+            <Pressable style={styles.ghostButton} onPress={() => navigation.navigate("Positions")}>
+              <Text style={styles.ghostButtonText}>Open positions ({openTrades.length})</Text>
+            </Pressable>
+            <Pressable style={styles.ghostButton} onPress={() => navigation.navigate("Export")}>
+              <Text style={styles.ghostButtonText}>Export CSV / JSON</Text>
+            </Pressable>
+
+            <Text style={styles.inputLabel}>Results</Text>
+            <OptionGroup
+              options={TRADING_MODE_OPTIONS}
+              selected={historyFilters.mode}
+              onSelect={(value) => updateHistoryFilter("mode", value)}
+            />
+
+            <Text style={styles.inputLabel}>Symbol</Text>
+            <TextInput
+              style={styles.input}
+              value={historyFilters.symbol}
+              onChangeText={(value) => updateHistoryFilter("symbol", value)}
+              autoCapitalize="characters"
+              placeholder="Any symbol"
+              placeholderTextColor="#6B7280"
+            />
+
+            <Text style={styles.inputLabel}>Side</Text>
+            <OptionGroup
+              options={[
+                { value: "", label: "Any" },
+                { value: "buy", label: "Buy" },
+                { value: "sell", label: "Sell" },
+              ]}
+              selected={historyFilters.side}
+              onSelect={(value) => updateHistoryFilter("side", value)}
+            />
+
+            <Text style={styles.inputLabel}>Close reason</Text>
+            <TextInput
+              style={styles.input}
+              value={historyFilters.closeReason}
+              onChangeText={(value) => updateHistoryFilter("closeReason", value)}
+              autoCapitalize="none"
+              placeholder="e.g. take_profit"
+              placeholderTextColor="#6B7280"
+            />
+
+            <View style={styles.rowButtons}>
+              <View style={styles.flexColumn}>
+                <Text style={styles.inputLabel}>From</Text>
+                <TextInput
+                  style={styles.input}
+                  value={historyFilters.from}
+                  onChangeText={(value) => updateHistoryFilter("from", value)}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#6B7280"
+                />
+              </View>
+              <View style={styles.flexColumn}>
+                <Text style={styles.inputLabel}>To</Text>
+                <TextInput
+                  style={styles.input}
+                  value={historyFilters.to}
+                  onChangeText={(value) => updateHistoryFilter("to", value)}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#6B7280"
+                />
+              </View>
+            </View>
+
+            <Text style={styles.inputLabel}>Sort by</Text>
+            <OptionGroup
+              options={[
+                { value: "closed_at", label: "Close time" },
+                { value: "pnl", label: "PnL" },
+              ]}
+              selected={historyFilters.sort}
+              onSelect={(value) => updateHistoryFilter("sort", value)}
+            />
+            <OptionGroup
+              options={[
+                { value: "desc", label: "Descending" },
+                { value: "asc", label: "Ascending" },
+              ]}
+              selected={historyFilters.order}
+              onSelect={(value) => updateHistoryFilter("order", value)}
+            />
+
+            <View style={styles.rowButtons}>
+              <Pressable style={styles.ghostButton} onPress={resetHistoryFilters}>
+                <Text style={styles.ghostButtonText}>Reset</Text>
+              </Pressable>
+              <Pressable style={styles.primaryButton} onPress={() => applyHistoryFilters(historyFilters)}>
+                <Text style={styles.primaryButtonText}>Apply</Text>
+              </Pressable>
+            </View>
+            <Feedback request={request} />
+            {historyItems.some((item) => item.mode === "paper") ? (
+              <PaperNotice>Showing paper trades. Simulated, not part of your live results.</PaperNotice>
+            ) : null}
+          </View>
+        }
+        renderItem={({ item }) => (
+          <Pressable
+            style={styles.positionCard}
+            onPress={() => navigation.navigate("TradeDetail", { tradeId: item.id })}
+          >
+            <View style={styles.heroTopRow}>
+              <Text style={styles.notificationTitle}>
+                {item.symbol} • {item.side.toUpperCase()} {item.quantity}
+              </Text>
+              <PaperBadge mode={item.mode} />
+              <Text style={item.pnl >= 0 ? styles.pnlPositive : styles.pnlNegative}>{item.pnl.toFixed(4)}</Text>
+            </View>
+            <Text style={styles.panelLine}>
+              {item.entry_price} → {item.close_price} • {item.close_reason}
+            </Text>
+            <Text style={styles.panelLine}>Closed {new Date(item.closed_at).toLocaleString()}</Text>
+          </Pressable>
+        )}
+        ListEmptyComponent={request.loading ? null : <Text style={styles.panelLine}>No trades match these filters.</Text>}
+        ListFooterComponent={
+          historyLoadingMore ? <ActivityIndicator size="small" color="#A78BFA" style={styles.feedbackSpinner} /> : null
+        }
+      />
+    </View>
+  );
+}
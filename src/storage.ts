@@ -0,0 +1,178 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+
+import type { AlertSettings, AlertWatchState } from "./alerts";
+import type { AuthSession, TradingWindow } from "./api";
+import type { LatencySample, LatencyThresholds } from "./latency";
+import type { ConfigPreset } from "./presets";
+import type { SymbolOverrideDraft } from "./symbolConfig";
+
+const STORAGE_KEY = "apex-scalper/app-state";
+const LATENCY_STORAGE_KEY = "apex-scalper/latency";
+const ALERT_SETTINGS_KEY = "apex-scalper/alert-settings";
+const ALERT_WATCH_KEY = "apex-scalper/alert-watch";
+// Not cleared on logout: presets hold no account data and are often shared by everyone using the device.
+const PRESETS_KEY = "apex-scalper/config-presets";
+// The access and refresh tokens live in the keychain / keystore, apart from the rest of the app state.
+const SESSION_KEY = "apex-scalper.session";
+// The background alert check runs while the phone is locked and needs the session then too.
+const SESSION_STORE_OPTIONS: SecureStore.SecureStoreOptions = { keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK };
+const STORAGE_VERSION = 1;
+
+export type PersistedProgress = {
+    onboarded: boolean;
+    mt5Connected: boolean;
+    configured: boolean;
+};
+
+export type PersistedMT5Account = {
+    broker: string;
+    login: string;
+    server: string;
+};
+
+export type PersistedConfiguration = {
+    symbols: string;
+    timeframe: "M1" | "M5";
+    quantity: string;
+    maxTrades: string;
+    profitTarget: string;
+    lossLimit: string;
+    allocatedCapital: string;
+    sessionMinutes: string;
+    // Missing in state saved before per-symbol settings existed.
+    symbolOverrides?: Record<string, SymbolOverrideDraft>;
+    // Missing in state saved before trading schedules existed.
+    timezone?: string;
+    tradingWindows?: TradingWindow[];
+    blackoutDates?: string;
+};
+
+export type PersistedState = {
+    apiBaseUrl: string;
+    email: string;
+    // Stored in SecureStore, never in AsyncStorage with the fields around it.
+    session: AuthSession | null;
+    progress: PersistedProgress;
+    mt5: PersistedMT5Account;
+    configuration: PersistedConfiguration;
+};
+
+export type PersistedLatencyState = {
+    thresholds: LatencyThresholds;
+    history: LatencySample[];
+};
+
+type StoredEnvelope = {
+    version: number;
+    state: PersistedState;
+};
+
+async function loadSession(): Promise<AuthSession | null> {
+    try {
+        const raw = await SecureStore.getItemAsync(SESSION_KEY, SESSION_STORE_OPTIONS);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+}
+
+export async function loadPersistedState(): Promise<PersistedState | null> {
+    try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEY);
+        if (!raw) {
+            return null;
+        }
+        const envelope: StoredEnvelope = JSON.parse(raw);
+        if (envelope?.version !== STORAGE_VERSION || !envelope.state) {
+            await AsyncStorage.removeItem(STORAGE_KEY);
+            return null;
+        }
+        // State saved by older versions still carries the tokens in plain storage; moving them is part of loading.
+        if (envelope.state.session) {
+            await savePersistedState(envelope.state);
+            return envelope.state;
+        }
+        return { ...envelope.state, session: await loadSession() };
+    } catch {
+        return null;
+    }
+}
+
+export async function savePersistedState(state: PersistedState): Promise<void> {
+    const envelope: StoredEnvelope = { version: STORAGE_VERSION, state: { ...state, session: null } };
+    if (state.session) {
+        await SecureStore.setItemAsync(SESSION_KEY, JSON.stringify(state.session), SESSION_STORE_OPTIONS);
+    } else {
+        await SecureStore.deleteItemAsync(SESSION_KEY, SESSION_STORE_OPTIONS);
+    }
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+}
+
+// Writes back only the session, e.g. after a headless token refresh, so anything the app saved since the
+// caller read its snapshot is kept.
+export async function savePersistedSession(session: AuthSession): Promise<void> {
+    // Skipped after a logout in the meantime, which must not be undone.
+    if (await loadSession()) {
+        await SecureStore.setItemAsync(SESSION_KEY, JSON.stringify(session), SESSION_STORE_OPTIONS);
+    }
+}
+
+export async function clearPersistedState(): Promise<void> {
+    await Promise.all([
+        AsyncStorage.multiRemove([STORAGE_KEY, LATENCY_STORAGE_KEY, ALERT_WATCH_KEY]),
+        SecureStore.deleteItemAsync(SESSION_KEY, SESSION_STORE_OPTIONS),
+    ]);
+}
+
+export async function loadLatencyState(): Promise<PersistedLatencyState | null> {
+    try {
+        const raw = await AsyncStorage.getItem(LATENCY_STORAGE_KEY);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+}
+
+export async function saveLatencyState(state: PersistedLatencyState): Promise<void> {
+    await AsyncStorage.setItem(LATENCY_STORAGE_KEY, JSON.stringify(state));
+}
+
+export async function loadAlertSettings(): Promise<AlertSettings | null> {
+    try {
+        const raw = await AsyncStorage.getItem(ALERT_SETTINGS_KEY);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+}
+
+export async function saveAlertSettings(settings: AlertSettings): Promise<void> {
+    await AsyncStorage.setItem(ALERT_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export async function loadAlertWatchState(): Promise<AlertWatchState | null> {
+    try {
+        const raw = await AsyncStorage.getItem(ALERT_WATCH_KEY);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+}
+
+export async function saveAlertWatchState(state: AlertWatchState): Promise<void> {
+    await AsyncStorage.setItem(ALERT_WATCH_KEY, JSON.stringify(state));
+}
+
+export async function loadPresets(): Promise<ConfigPreset[]> {
+    try {
+        const raw = await AsyncStorage.getItem(PRESETS_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch {
+        return [];
+    }
+}
+
+export async function savePresets(presets: ConfigPreset[]): Promise<void> {
+    await AsyncStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+}
@@ -0,0 +1,631 @@
+import { ReactNode, createContext, useContext, useEffect, useRef, useState } from "react";
+import { AppState } from "react-native";
+
+import {
+  ApiDefaults,
+  AuthSession,
+  BotStatusResponse,
+  ClosedTradeItem,
+  DailyPnlResponse,
+  DashboardSummaryResponse,
+  KillSwitchResponse,
+  LicenseStatusResponse,
+  MT5AccountItem,
+  NotificationItem,
+  OpenTradeItem,
+  RiskConfigResponse,
+  SessionSchedule,
+  dismissNotification as dismissNotificationRequest,
+  getBotStatus,
+  getClosedTrades,
+  getDailyPnl,
+  getDashboardSummary,
+  getHealth,
+  getLatencyMetrics,
+  getLicenseStatus,
+  getMT5Accounts,
+  getNotifications,
+  getRiskConfig,
+  getSessionConfig,
+  loginUser,
+  logoutUser,
+  markNotificationsRead as markNotificationsReadRequest,
+  onSessionChange,
+  onUnauthorized,
+  setActiveAccountId,
+  setAuthSession,
+  triggerKillSwitch as triggerKillSwitchRequest,
+} from "./api";
+import {
+  AppLockSettings,
+  DEFAULT_APP_LOCK_SETTINGS,
+  PinCheck,
+  authenticateWithBiometrics,
+  authenticateWithDevice,
+  biometricsAvailable,
+  clearAppLock,
+  loadAppLockSettings,
+  saveAppLock,
+  verifyPin,
+} from "./appLock";
+import { ConfigForm } from "./configForm";
+import { confirm } from "./confirm";
+import { clearMT5Passwords } from "./credentials";
+import { deviceTimeZone } from "./schedule";
+import {
+  DEFAULT_LATENCY_THRESHOLDS,
+  LatencySample,
+  LatencyThresholds,
+  appendSample,
+  detectDegradation,
+} from "./latency";
+import {
+  PersistedMT5Account,
+  PersistedProgress,
+  clearPersistedState,
+  loadLatencyState,
+  loadPersistedState,
+  saveLatencyState,
+  savePersistedState,
+} from "./storage";
+import { LiveConnectionState, LiveEvent, subscribeToLiveUpdates } from "./stream";
+
+export type HealthState = "healthy" | "unhealthy" | "unknown";
+
+export type AppStore = {
+  hydrated: boolean;
+  session: AuthSession | null;
+  userId: string;
+  // Shown on the login screen after the session expired or the user was signed out.
+  authNotice: string | null;
+  apiBaseUrl: string;
+  setApiBaseUrl: (url: string) => void;
+  email: string;
+  setEmail: (email: string) => void;
+  progress: PersistedProgress;
+  updateProgress: (patch: Partial<PersistedProgress>) => void;
+  mt5Form: PersistedMT5Account;
+  updateMt5Form: (patch: Partial<PersistedMT5Account>) => void;
+  mt5Accounts: MT5AccountItem[];
+  activeAccount: MT5AccountItem | null;
+  applyAccounts: (accounts: MT5AccountItem[]) => void;
+  replaceAccount: (account: MT5AccountItem) => void;
+  configForm: ConfigForm;
+  updateConfigForm: (patch: Partial<ConfigForm>) => void;
+  // The saved trading schedule, null when the bot is only started by hand.
+  schedule: SessionSchedule | null;
+  setSchedule: (schedule: SessionSchedule | null) => void;
+  // The saved risk settings, as opposed to the possibly unsaved values in configForm.
+  riskConfig: RiskConfigResponse | null;
+  setRiskConfig: (riskConfig: RiskConfigResponse | null) => void;
+  health: HealthState;
+  license: LicenseStatusResponse | null;
+  summary: DashboardSummaryResponse | null;
+  botStatus: BotStatusResponse | null;
+  setBotStatus: (status: BotStatusResponse) => void;
+  dailyPnl: DailyPnlResponse | null;
+  // Today's paper trading results, kept apart from the live figures above.
+  paperPnl: DailyPnlResponse | null;
+  openTrades: OpenTradeItem[];
+  setOpenTrades: (trades: OpenTradeItem[]) => void;
+  closedTrades: ClosedTradeItem[];
+  recordClosedTrades: (trades: ClosedTradeItem[]) => void;
+  notifications: NotificationItem[];
+  unreadCount: number;
+  setUnreadCount: (count: number) => void;
+  markNotificationsRead: (ids?: number[]) => Promise<void>;
+  dismissNotification: (notification: NotificationItem) => Promise<void>;
+  // The outcome of the last kill switch in this session, shown until the next one.
+  killSwitchResult: KillSwitchResponse | null;
+  triggerKillSwitch: () => Promise<KillSwitchResponse>;
+  liveState: LiveConnectionState;
+  latencyThresholds: LatencyThresholds;
+  setLatencyThresholds: (thresholds: LatencyThresholds) => void;
+  latencyHistory: LatencySample[];
+  latencyWarning: string | null;
+  sampleLatency: () => Promise<void>;
+  appLock: AppLockSettings;
+  setAppLock: (settings: AppLockSettings, pin?: string) => Promise<void>;
+  // True while the lock screen covers the app.
+  locked: boolean;
+  unlockWithPin: (pin: string) => Promise<PinCheck>;
+  unlockWithBiometrics: () => Promise<boolean>;
+  // The action waiting on a PIN, while the re-authentication prompt is open.
+  reauthReason: string | null;
+  answerReauth: (pin: string | null) => Promise<PinCheck>;
+  reauthenticate: (reason: string) => Promise<boolean>;
+  login: (password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  refreshHome: () => Promise<void>;
+};
+
+const LATENCY_SAMPLE_INTERVAL_MS = 30_000;
+
+const initialProgress: PersistedProgress = { onboarded: false, mt5Connected: false, configured: false };
+
+const initialMt5Form: PersistedMT5Account = { broker: "", login: "", server: "" };
+
+const initialConfigForm: ConfigForm = {
+  symbols: "XAUUSD,EURUSD",
+  timeframe: "M1",
+  quantity: "1",
+  maxTrades: "10",
+  profitTarget: "0.30",
+  lossLimit: "0.25",
+  allocatedCapital: "50",
+  sessionMinutes: "120",
+  symbolOverrides: {},
+  timezone: deviceTimeZone(),
+  tradingWindows: [],
+  blackoutDates: "",
+};
+
+const AppStoreContext = createContext<AppStore | null>(null);
+
+export function useAppStore(): AppStore {
+  const store = useContext(AppStoreContext);
+  if (!store) {
+    throw new Error("useAppStore must be used inside AppStoreProvider");
+  }
+  return store;
+}
+
+// Owns everything more than one screen needs: the session, setup progress, the configuration form,
+// live account data and latency history. Screens keep their own loading and error state.
+export function AppStoreProvider({ children }: { children: ReactNode }) {
+  const [hydrated, setHydrated] = useState(false);
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [userId, setUserId] = useState("demo-user");
+  const [authNotice, setAuthNotice] = useState<string | null>(null);
+  const [apiBaseUrl, setApiBaseUrl] = useState(ApiDefaults.baseUrl);
+  const [email, setEmail] = useState("");
+  const [progress, setProgress] = useState<PersistedProgress>(initialProgress);
+  const [mt5Form, setMt5Form] = useState<PersistedMT5Account>(initialMt5Form);
+  const [mt5Accounts, setMt5Accounts] = useState<MT5AccountItem[]>([]);
+  const [configForm, setConfigForm] = useState<ConfigForm>(initialConfigForm);
+  const [schedule, setSchedule] = useState<SessionSchedule | null>(null);
+  const [riskConfig, setRiskConfig] = useState<RiskConfigResponse | null>(null);
+
+  const [health, setHealth] = useState<HealthState>("unknown");
+  const [license, setLicense] = useState<LicenseStatusResponse | null>(null);
+  const [summary, setSummary] = useState<DashboardSummaryResponse | null>(null);
+  const [botStatus, setBotStatus] = useState<BotStatusResponse | null>(null);
+  const [dailyPnl, setDailyPnl] = useState<DailyPnlResponse | null>(null);
+  const [paperPnl, setPaperPnl] = useState<DailyPnlResponse | null>(null);
+  const [openTrades, setOpenTrades] = useState<OpenTradeItem[]>([]);
+  const [closedTrades, setClosedTrades] = useState<ClosedTradeItem[]>([]);
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [killSwitchResult, setKillSwitchResult] = useState<KillSwitchResponse | null>(null);
+  const [liveState, setLiveState] = useState<LiveConnectionState>("closed");
+
+  const [appLock, setAppLockState] = useState<AppLockSettings>(DEFAULT_APP_LOCK_SETTINGS);
+  const [locked, setLocked] = useState(false);
+  const [reauthReason, setReauthReason] = useState<string | null>(null);
+
+  const [latencyThresholds, setLatencyThresholds] = useState<LatencyThresholds>(DEFAULT_LATENCY_THRESHOLDS);
+  const [latencyHistory, setLatencyHistory] = useState<LatencySample[]>([]);
+  const [latencyWarning, setLatencyWarning] = useState<string | null>(null);
+
+  const refreshController = useRef<AbortController | null>(null);
+  const reauthResolver = useRef<((confirmed: boolean) => void) | null>(null);
+  // The live handler outlives renders, so it reads the list from here to tell new pushes from repeats.
+  const notificationsRef = useRef<NotificationItem[]>(notifications);
+  notificationsRef.current = notifications;
+
+  const signedIn = session !== null;
+  const botRunning = botStatus?.running ?? false;
+  const activeAccount = mt5Accounts.find((account) => account.is_active) ?? null;
+
+  useEffect(() => onSessionChange(setSession), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadPersistedState(), loadAppLockSettings()]).then(([saved, lockSettings]) => {
+      if (cancelled) {
+        return;
+      }
+      setAppLockState(lockSettings);
+      if (saved) {
+        setApiBaseUrl(saved.apiBaseUrl);
+        setEmail(saved.email);
+        setProgress(saved.progress);
+        setMt5Form(saved.mt5);
+        setConfigForm({ ...initialConfigForm, ...saved.configuration });
+        if (saved.session) {
+          setAuthSession(saved.session);
+          setUserId(saved.session.user_id);
+          setLocked(lockSettings.enabled);
+        }
+      }
+      setHydrated(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    // Nothing is written while logged out, so a logout wipe is not immediately undone.
+    if (!hydrated || !session) {
+      return;
+    }
+    savePersistedState({ apiBaseUrl, email, session, progress, mt5: mt5Form, configuration: configForm }).catch(
+      () => undefined,
+    );
+  }, [hydrated, apiBaseUrl, email, session, progress, mt5Form, configForm]);
+
+  useEffect(() => {
+    if (!signedIn || !appLock.enabled) {
+      return;
+    }
+    // Locking on "background" rather than "inactive" keeps the biometric prompt itself from locking the app.
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "background") {
+        settleReauth(false);
+        setLocked(true);
+      }
+    });
+    return () => subscription.remove();
+  }, [signedIn, appLock.enabled]);
+
+  useEffect(
+    () =>
+      onUnauthorized(() => {
+        setAuthNotice("Your session has expired. Please log in again.");
+      }),
+    [],
+  );
+
+  useEffect(() => {
+    if (!signedIn || !progress.configured) {
+      return;
+    }
+    return subscribeToLiveUpdates(
+      userId,
+      { onEvent: applyLiveEvent, onStateChange: setLiveState },
+      { baseUrl: apiBaseUrl },
+    );
+  }, [signedIn, progress.configured, userId, apiBaseUrl, activeAccount?.id]);
+
+  useEffect(() => {
+    loadLatencyState().then((saved) => {
+      if (!saved) {
+        return;
+      }
+      setLatencyThresholds(saved.thresholds);
+      setLatencyHistory(saved.history);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!signedIn) {
+      return;
+    }
+    saveLatencyState({ thresholds: latencyThresholds, history: latencyHistory }).catch(() => undefined);
+  }, [signedIn, latencyThresholds, latencyHistory]);
+
+  useEffect(() => {
+    if (!signedIn || !botRunning) {
+      return;
+    }
+    sampleLatency().catch(() => undefined);
+    const timer = setInterval(() => {
+      sampleLatency().catch(() => undefined);
+    }, LATENCY_SAMPLE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [signedIn, botRunning, apiBaseUrl]);
+
+  useEffect(() => {
+    if (!botRunning) {
+      setLatencyWarning(null);
+      return;
+    }
+    const degraded = detectDegradation(latencyHistory, latencyThresholds);
+    setLatencyWarning(
+      degraded.length
+        ? `Execution latency is degrading: ${degraded
+            .map((item) => `${item.metric} p95 ${item.latestP95.toFixed(0)}ms (usual ${item.baselineP95.toFixed(0)}ms)`)
+            .join(", ")}`
+        : null,
+    );
+  }, [botRunning, latencyHistory, latencyThresholds]);
+
+  useEffect(() => () => refreshController.current?.abort(), []);
+
+  function applyLiveEvent(event: LiveEvent): void {
+    switch (event.type) {
+      case "bot_status":
+        setBotStatus(event.data);
+        break;
+      case "summary":
+        setSummary(event.data);
+        break;
+      case "daily_pnl":
+        (event.data.mode === "paper" ? setPaperPnl : setDailyPnl)(event.data);
+        break;
+      case "open_trades":
+        setOpenTrades(event.data);
+        break;
+      case "notification": {
+        // Pushes repeat after a reconnect or a poll; only an id not in the list adds to the unread count.
+        const current = notificationsRef.current;
+        const isNew = !current.some((item) => item.id === event.data.id);
+        notificationsRef.current = [event.data, ...current.filter((item) => item.id !== event.data.id)];
+        setNotifications(notificationsRef.current);
+        if (isNew && !event.data.read) {
+          setUnreadCount((count) => count + 1);
+        }
+        break;
+      }
+      case "notifications":
+        notificationsRef.current = event.data;
+        setNotifications(event.data);
+        break;
+      case "unread_count":
+        setUnreadCount(event.data);
+        break;
+    }
+  }
+
+  function applyAccounts(accounts: MT5AccountItem[]): void {
+    setMt5Accounts(accounts);
+    setActiveAccountId(accounts.find((account) => account.is_active)?.id ?? null);
+  }
+
+  function replaceAccount(account: MT5AccountItem): void {
+    setMt5Accounts((current) => current.map((item) => (item.id === account.id ? account : item)));
+  }
+
+  function recordClosedTrades(trades: ClosedTradeItem[]): void {
+    const closedIds = new Set(trades.map((trade) => trade.id));
+    setOpenTrades((current) => current.filter((trade) => !closedIds.has(trade.id)));
+    setClosedTrades((current) => [...trades, ...current.filter((trade) => !closedIds.has(trade.id))]);
+  }
+
+  async function markNotificationsRead(ids?: number[]): Promise<void> {
+    const result = await markNotificationsReadRequest({ user_id: userId, ids }, apiBaseUrl);
+    const marked = ids ? new Set(ids) : null;
+    setNotifications((current) =>
+      current.map((item) => (!marked || marked.has(item.id) ? { ...item, read: true } : item)),
+    );
+    setUnreadCount(result.unread_count);
+  }
+
+  async function dismissNotification(notification: NotificationItem): Promise<void> {
+    await dismissNotificationRequest(userId, notification.id, apiBaseUrl);
+    setNotifications((current) => current.filter((item) => item.id !== notification.id));
+    if (!notification.read) {
+      setUnreadCount((count) => Math.max(0, count - 1));
+    }
+  }
+
+  // The unread count is left to the live feed, which also delivers the recorded notification.
+  async function triggerKillSwitch(): Promise<KillSwitchResponse> {
+    const result = await triggerKillSwitchRequest(userId, apiBaseUrl);
+    setBotStatus(result.bot);
+    recordClosedTrades(result.closed);
+    setNotifications((current) => [
+      result.notification,
+      ...current.filter((item) => item.id !== result.notification.id),
+    ]);
+    setKillSwitchResult(result);
+    return result;
+  }
+
+  async function sampleLatency(): Promise<void> {
+    const metrics = await getLatencyMetrics(apiBaseUrl, { retries: 0 });
+    setLatencyHistory((current) => appendSample(current, { at: new Date().toISOString(), metrics }));
+  }
+
+  async function setAppLock(settings: AppLockSettings, pin?: string): Promise<void> {
+    await saveAppLock(settings, pin);
+    setAppLockState(settings);
+  }
+
+  async function unlockWithPin(pin: string): Promise<PinCheck> {
+    const check = await verifyPin(pin);
+    if (check.ok) {
+      setLocked(false);
+    }
+    return check;
+  }
+
+  async function unlockWithBiometrics(): Promise<boolean> {
+    if (!appLock.biometrics || !(await biometricsAvailable())) {
+      return false;
+    }
+    const unlocked = await authenticateWithBiometrics("Unlock Apex Scalper");
+    if (unlocked) {
+      setLocked(false);
+    }
+    return unlocked;
+  }
+
+  function settleReauth(confirmed: boolean): void {
+    reauthResolver.current?.(confirmed);
+    reauthResolver.current = null;
+    setReauthReason(null);
+  }
+
+  // A null PIN cancels the prompt.
+  async function answerReauth(pin: string | null): Promise<PinCheck> {
+    if (pin === null) {
+      settleReauth(false);
+      return { ok: false, message: "Cancelled" };
+    }
+    const check = await verifyPin(pin);
+    if (check.ok) {
+      settleReauth(true);
+    }
+    return check;
+  }
+
+  // Resolves true once the user has proved it is still them: biometrics when enabled, otherwise the app PIN.
+  // With the app lock off the device's own lock is used; with no lock at all the user still has to confirm.
+  async function reauthenticate(reason: string): Promise<boolean> {
+    if (!appLock.enabled) {
+      const deviceCheck = await authenticateWithDevice(reason);
+      return deviceCheck ?? (await confirm(reason, "Continue with this action?", "Continue"));
+    }
+    if (appLock.biometrics && (await biometricsAvailable()) && (await authenticateWithBiometrics(reason))) {
+      return true;
+    }
+    settleReauth(false);
+    setReauthReason(reason);
+    return new Promise((resolve) => {
+      reauthResolver.current = resolve;
+    });
+  }
+
+  async function login(password: string): Promise<void> {
+    const started = await loginUser(email, password, apiBaseUrl);
+    setAuthNotice(null);
+    setUserId(started.user_id);
+  }
+
+  async function logout(): Promise<void> {
+    refreshController.current?.abort();
+    // The local session is cleared by logoutUser even when the request fails.
+    await logoutUser(apiBaseUrl).catch(() => undefined);
+    setHealth("unknown");
+    setLicense(null);
+    setSummary(null);
+    setBotStatus(null);
+    setClosedTrades([]);
+    setNotifications([]);
+    setUnreadCount(0);
+    setKillSwitchResult(null);
+    setDailyPnl(null);
+    setPaperPnl(null);
+    setSchedule(null);
+    setRiskConfig(null);
+    setOpenTrades([]);
+    setMt5Accounts([]);
+    setActiveAccountId(null);
+    setProgress(initialProgress);
+    // The next person to sign in on this device must not see the previous user's details.
+    setEmail("");
+    setMt5Form(initialMt5Form);
+    setConfigForm(initialConfigForm);
+    setAuthNotice(null);
+    // The lock belongs to whoever set it up; the next person to sign in chooses their own.
+    settleReauth(false);
+    setLocked(false);
+    setAppLockState(DEFAULT_APP_LOCK_SETTINGS);
+    await Promise.all([clearPersistedState(), clearAppLock(), clearMT5Passwords()]).catch(() => undefined);
+  }
+
+  async function refreshHome(): Promise<void> {
+    refreshController.current?.abort();
+    const controller = new AbortController();
+    refreshController.current = controller;
+    const options = { signal: controller.signal };
+
+    try {
+      // Accounts load first so the scoped requests below use the account that is active on the server.
+      applyAccounts(await getMT5Accounts(userId, apiBaseUrl, options));
+      const [
+        healthResult,
+        licenseResult,
+        summaryResult,
+        botResult,
+        pnlResult,
+        paperPnlResult,
+        closedResult,
+        notificationsResult,
+        sessionResult,
+        riskResult,
+      ] = await Promise.all([
+        getHealth(apiBaseUrl, options),
+        getLicenseStatus(userId, apiBaseUrl, options),
+        getDashboardSummary(userId, apiBaseUrl, options),
+        getBotStatus(userId, apiBaseUrl, options),
+        getDailyPnl(userId, "live", apiBaseUrl, options),
+        getDailyPnl(userId, "paper", apiBaseUrl, options),
+        getClosedTrades(userId, apiBaseUrl, 10, options),
+        getNotifications(userId, {}, apiBaseUrl, options),
+        getSessionConfig(userId, apiBaseUrl, options),
+        getRiskConfig(userId, apiBaseUrl, options),
+      ]);
+      setHealth(healthResult.ok ? "healthy" : "unhealthy");
+      setLicense(licenseResult);
+      setSummary(summaryResult);
+      setBotStatus(botResult);
+      setDailyPnl(pnlResult);
+      setPaperPnl(paperPnlResult);
+      setClosedTrades(closedResult);
+      setNotifications(notificationsResult.items);
+      setUnreadCount(notificationsResult.unread_count);
+      setSchedule(sessionResult.schedule ?? null);
+      setRiskConfig(riskResult);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setHealth("unhealthy");
+      }
+      throw error;
+    }
+  }
+
+  const store: AppStore = {
+    hydrated,
+    session,
+    userId,
+    authNotice,
+    apiBaseUrl,
+    setApiBaseUrl,
+    email,
+    setEmail,
+    progress,
+    updateProgress: (patch) => setProgress((current) => ({ ...current, ...patch })),
+    mt5Form,
+    updateMt5Form: (patch) => setMt5Form((current) => ({ ...current, ...patch })),
+    mt5Accounts,
+    activeAccount,
+    applyAccounts,
+    replaceAccount,
+    configForm,
+    updateConfigForm: (patch) => setConfigForm((current) => ({ ...current, ...patch })),
+    schedule,
+    setSchedule,
+    riskConfig,
+    setRiskConfig,
+    health,
+    license,
+    summary,
+    botStatus,
+    setBotStatus,
+    dailyPnl,
+    paperPnl,
+    openTrades,
+    setOpenTrades,
+    closedTrades,
+    recordClosedTrades,
+    notifications,
+    unreadCount,
+    setUnreadCount,
+    markNotificationsRead,
+    dismissNotification,
+    killSwitchResult,
+    triggerKillSwitch,
+    liveState,
+    latencyThresholds,
+    setLatencyThresholds,
+    latencyHistory,
+    latencyWarning,
+    sampleLatency,
+    appLock,
+    setAppLock,
+    locked,
+    unlockWithPin,
+    unlockWithBiometrics,
+    reauthReason,
+    answerReauth,
+    reauthenticate,
+    login,
+    logout,
+    refreshHome,
+  };
+
+  return <AppStoreContext.Provider value={store}>{children}</AppStoreContext.Provider>;
+}
@@ -0,0 +1,243 @@
+import {
+    BotStatusResponse,
+    DailyPnlResponse,
+    DashboardSummaryResponse,
+    NotificationItem,
+    OpenTradeItem,
+    getBotStatus,
+    getDailyPnl,
+    getDashboardSummary,
+    getNotifications,
+    getOpenTrades,
+} from "./api";
+import { getActiveAccountId, getApiClientConfig, getAuthSession } from "./client";
+import { Decoder, DecodeError, array, number } from "./decode";
+import { isMockBaseUrl } from "./mockBackend";
+import * as schemas from "./schemas";
+
+export type LiveEvent =
+    | { type: "bot_status"; data: BotStatusResponse }
+    | { type: "summary"; data: DashboardSummaryResponse }
+    | { type: "daily_pnl"; data: DailyPnlResponse }
+    | { type: "open_trades"; data: OpenTradeItem[] }
+    | { type: "notification"; data: NotificationItem }
+    | { type: "notifications"; data: NotificationItem[] }
+    | { type: "unread_count"; data: number };
+
+export type LiveConnectionState = "connecting" | "live" | "polling" | "closed";
+
+export type LiveUpdateHandlers = {
+    onEvent: (event: LiveEvent) => void;
+    onStateChange?: (state: LiveConnectionState) => void;
+};
+
+export type LiveStreamOptions = {
+    baseUrl?: string;
+    pollIntervalMs?: number;
+    initialReconnectDelayMs?: number;
+    maxReconnectDelayMs?: number;
+    // Injected in development to point the stream at a stand-in server or a fake socket.
+    createSocket?: (url: string) => WebSocket;
+};
+
+const LIVE_EVENT_DECODERS: { [K in LiveEvent["type"]]: Decoder<Extract<LiveEvent, { type: K }>["data"]> } = {
+    bot_status: schemas.botStatusResponse,
+    summary: schemas.dashboardSummaryResponse,
+    daily_pnl: schemas.dailyPnlResponse,
+    open_trades: array(schemas.openTradeItem),
+    notification: schemas.notificationItem,
+    notifications: array(schemas.notificationItem),
+    unread_count: number,
+};
+
+// The access token is not part of the URL, where proxies and access logs would keep it; it is sent as the
+// first message once the socket is open.
+export function liveStreamUrl(baseUrl: string, userId: string, accountId?: number | null): string {
+    const socketBase = baseUrl.replace(/\/$/, "").replace(/^http(s?):\/\//, (_, secure: string) => `ws${secure}://`);
+    const params = [`user_id=${encodeURIComponent(userId)}`];
+    if (accountId !== undefined && accountId !== null) {
+        params.push(`account_id=${accountId}`);
+    }
+    return `${socketBase}/ws/live?${params.join("&")}`;
+}
+
+// Malformed or off-contract pushes are dropped; the next poll or push carries fresh data anyway.
+export function parseLiveEvent(raw: unknown): LiveEvent | null {
+    if (typeof raw !== "string") {
+        return null;
+    }
+    try {
+        const message = JSON.parse(raw);
+        const type = message?.type as LiveEvent["type"];
+        if (!Object.prototype.hasOwnProperty.call(LIVE_EVENT_DECODERS, type)) {
+            return null;
+        }
+        const decoder = LIVE_EVENT_DECODERS[type] as Decoder<unknown>;
+        return { type, data: decoder(message.data, "data") } as LiveEvent;
+    } catch (error) {
+        if (error instanceof DecodeError || error instanceof SyntaxError) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+// Keeps Home in sync with the bot: pushes arrive over a WebSocket, and while the socket is
+// down the same data is polled over REST until a reconnect succeeds.
+export function subscribeToLiveUpdates(
+    userId: string,
+    handlers: LiveUpdateHandlers,
+    options: LiveStreamOptions = {},
+): () => void {
+    const baseUrl = options.baseUrl ?? getApiClientConfig().baseUrl;
+    const pollIntervalMs = options.pollIntervalMs ?? 5_000;
+    const initialDelay = options.initialReconnectDelayMs ?? 1_000;
+    const maxDelay = options.maxReconnectDelayMs ?? 30_000;
+    const createSocket = options.createSocket ?? ((url: string) => new WebSocket(url));
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let pollController: AbortController | null = null;
+    let reconnectDelay = initialDelay;
+    let closed = false;
+
+    function setState(state: LiveConnectionState): void {
+        handlers.onStateChange?.(state);
+    }
+
+    async function pollOnce(): Promise<void> {
+        pollController?.abort();
+        const controller = new AbortController();
+        pollController = controller;
+        const requestOptions = { signal: controller.signal, retries: 0 };
+        const results = await Promise.allSettled([
+            getBotStatus(userId, baseUrl, requestOptions),
+            getDashboardSummary(userId, baseUrl, requestOptions),
+            getDailyPnl(userId, "live", baseUrl, requestOptions),
+            getDailyPnl(userId, "paper", baseUrl, requestOptions),
+            getOpenTrades(userId, baseUrl, requestOptions),
+            getNotifications(userId, {}, baseUrl, requestOptions),
+        ]);
+        if (closed || controller.signal.aborted) {
+            return;
+        }
+        const [bot, summary, pnl, paperPnl, openTrades, notifications] = results;
+        if (bot.status === "fulfilled") {
+            handlers.onEvent({ type: "bot_status", data: bot.value });
+        }
+        if (summary.status === "fulfilled") {
+            handlers.onEvent({ type: "summary", data: summary.value });
+        }
+        if (pnl.status === "fulfilled") {
+            handlers.onEvent({ type: "daily_pnl", data: pnl.value });
+        }
+        if (paperPnl.status === "fulfilled") {
+            handlers.onEvent({ type: "daily_pnl", data: paperPnl.value });
+        }
+        if (openTrades.status === "fulfilled") {
+            handlers.onEvent({ type: "open_trades", data: openTrades.value });
+        }
+        if (notifications.status === "fulfilled") {
+            handlers.onEvent({ type: "notifications", data: notifications.value.items });
+            handlers.onEvent({ type: "unread_count", data: notifications.value.unread_count });
+        }
+    }
+
+    function startPolling(): void {
+        if (pollTimer || closed) {
+            return;
+        }
+        setState("polling");
+        pollOnce().catch(() => undefined);
+        pollTimer = setInterval(() => {
+            pollOnce().catch(() => undefined);
+        }, pollIntervalMs);
+    }
+
+    function stopPolling(): void {
+        if (pollTimer) {
+            clearInterval(pollTimer);
+            pollTimer = null;
+        }
+        pollController?.abort();
+        pollController = null;
+    }
+
+    function scheduleReconnect(): void {
+        if (closed || reconnectTimer) {
+            return;
+        }
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            connect();
+        }, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, maxDelay);
+    }
+
+    function connect(): void {
+        if (closed) {
+            return;
+        }
+        // The mock backend has no socket server; polling it gives the same updates.
+        if (isMockBaseUrl(baseUrl) && !options.createSocket) {
+            startPolling();
+            return;
+        }
+        if (!pollTimer) {
+            setState("connecting");
+        }
+
+        let next: WebSocket;
+        try {
+            next = createSocket(liveStreamUrl(baseUrl, userId, getActiveAccountId()));
+        } catch {
+            startPolling();
+            scheduleReconnect();
+            return;
+        }
+        socket = next;
+
+        next.onopen = () => {
+            const token = getAuthSession()?.access_token;
+            if (token) {
+                next.send(JSON.stringify({ type: "auth", token }));
+            }
+            reconnectDelay = initialDelay;
+            stopPolling();
+            setState("live");
+        };
+        next.onmessage = (message) => {
+            const event = parseLiveEvent(message.data);
+            if (event) {
+                handlers.onEvent(event);
+            }
+        };
+        next.onerror = () => {
+            next.close();
+        };
+        next.onclose = () => {
+            if (socket !== next) {
+                return;
+            }
+            socket = null;
+            startPolling();
+            scheduleReconnect();
+        };
+    }
+
+    connect();
+
+    return () => {
+        closed = true;
+        if (reconnectTimer) {
+            clearTimeout(reconnectTimer);
+            reconnectTimer = null;
+        }
+        stopPolling();
+        const current = socket;
+        socket = null;
+        current?.close();
+        setState("closed");
+    };
+}
@@ -0,0 +1,101 @@
+import type { SymbolOverride, TradingConfigRequest } from "./api";
+
+export type SymbolSettings = {
+    symbol: string;
+    enabled: boolean;
+    quantity: number;
+    profit_threshold: number;
+    loss_threshold: number;
+    max_trades_per_session: number;
+};
+
+// Form state for one symbol. Blank fields mean "use the global value".
+export type SymbolOverrideDraft = {
+    enabled: boolean;
+    quantity: string;
+    profitThreshold: string;
+    lossThreshold: string;
+    maxTrades: string;
+};
+
+export const emptyOverrideDraft: SymbolOverrideDraft = {
+    enabled: true,
+    quantity: "",
+    profitThreshold: "",
+    lossThreshold: "",
+    maxTrades: "",
+};
+
+export function parseSymbols(text: string): string[] {
+    const symbols = text
+        .split(",")
+        .map((item) => item.trim().toUpperCase())
+        .filter(Boolean);
+    return [...new Set(symbols)];
+}
+
+export function resolveSymbolSettings(config: Omit<TradingConfigRequest, "user_id">, symbol: string): SymbolSettings {
+    const override = config.symbol_overrides?.find((item) => item.symbol === symbol);
+    return {
+        symbol,
+        enabled: override?.enabled ?? true,
+        quantity: override?.quantity ?? config.quantity,
+        profit_threshold: override?.profit_threshold ?? config.profit_threshold,
+        loss_threshold: override?.loss_threshold ?? config.loss_threshold,
+        max_trades_per_session: override?.max_trades_per_session ?? config.max_trades_per_session,
+    };
+}
+
+export function enabledAssets(config: Omit<TradingConfigRequest, "user_id">): string[] {
+    return config.assets.filter((symbol) => resolveSymbolSettings(config, symbol).enabled);
+}
+
+function optionalNumber(value: string): number | undefined {
+    return value.trim() ? Number(value) : undefined;
+}
+
+// Only symbols that differ from the global settings are sent. The loss threshold is entered as a
+// positive amount, like the daily loss limit, and sent negative as the backend expects.
+export function buildSymbolOverrides(
+    symbols: string[],
+    drafts: Record<string, SymbolOverrideDraft>,
+): SymbolOverride[] {
+    const overrides: SymbolOverride[] = [];
+    for (const symbol of symbols) {
+        const draft = drafts[symbol];
+        if (!draft) {
+            continue;
+        }
+        const lossThreshold = optionalNumber(draft.lossThreshold);
+        const override: SymbolOverride = {
+            symbol,
+            enabled: draft.enabled,
+            quantity: optionalNumber(draft.quantity),
+            profit_threshold: optionalNumber(draft.profitThreshold),
+            loss_threshold: lossThreshold === undefined ? undefined : -Math.abs(lossThreshold),
+            max_trades_per_session: optionalNumber(draft.maxTrades),
+        };
+        const customised = Object.entries(override).some(
+            ([key, value]) => key !== "symbol" && key !== "enabled" && value !== undefined,
+        );
+        if (!draft.enabled || customised) {
+            overrides.push(override);
+        }
+    }
+    return overrides;
+}
+
+export function draftsFromOverrides(overrides: SymbolOverride[]): Record<string, SymbolOverrideDraft> {
+    const drafts: Record<string, SymbolOverrideDraft> = {};
+    for (const override of overrides) {
+        const text = (value: number | undefined) => (value === undefined ? "" : String(value));
+        drafts[override.symbol] = {
+            enabled: override.enabled,
+            quantity: text(override.quantity),
+            profitThreshold: text(override.profit_threshold),
+            lossThreshold: text(override.loss_threshold === undefined ? undefined : Math.abs(override.loss_threshold)),
+            maxTrades: text(override.max_trades_per_session),
+        };
+    }
+    return drafts;
+}
@@ -0,0 +1,432 @@
+import { StyleSheet } from "react-native";
+
+export const styles = StyleSheet.create({
+    safeArea: {
+        flex: 1,
+        backgroundColor: "#05070B",
+    },
+    centerContainer: {
+        flex: 1,
+        justifyContent: "center",
+        padding: 18,
+    },
+    list: {
+        flex: 1,
+    },
+    container: {
+        paddingHorizontal: 16,
+        paddingTop: 10,
+        paddingBottom: 28,
+        gap: 12,
+    },
+    lockOverlay: {
+        ...StyleSheet.absoluteFillObject,
+        backgroundColor: "#05070B",
+        justifyContent: "center",
+        padding: 18,
+    },
+    modalBackdrop: {
+        flex: 1,
+        backgroundColor: "rgba(0, 0, 0, 0.7)",
+        justifyContent: "center",
+        padding: 18,
+    },
+    authCard: {
+        backgroundColor: "#0B1020",
+        borderColor: "#1F2937",
+        borderWidth: 1,
+        borderRadius: 20,
+        padding: 16,
+        gap: 10,
+    },
+    brandTitle: {
+        color: "#F8FAFC",
+        fontSize: 26,
+        fontWeight: "700",
+    },
+    brandSubtitle: {
+        color: "#9CA3AF",
+        fontSize: 13,
+        marginBottom: 8,
+    },
+    progressText: {
+        color: "#A78BFA",
+        fontSize: 12,
+        fontWeight: "700",
+    },
+    onboardingTitle: {
+        color: "#F8FAFC",
+        fontSize: 22,
+        fontWeight: "700",
+    },
+    onboardingBody: {
+        color: "#CBD5E1",
+        fontSize: 15,
+        lineHeight: 22,
+        marginBottom: 10,
+    },
+    inputLabel: {
+        color: "#CBD5E1",
+        fontSize: 13,
+        fontWeight: "600",
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: "#374151",
+        borderRadius: 12,
+        backgroundColor: "#111827",
+        paddingHorizontal: 12,
+        paddingVertical: 11,
+        fontSize: 14,
+        color: "#F8FAFC",
+    },
+    multilineInput: {
+        minHeight: 120,
+        textAlignVertical: "top",
+    },
+    inputInvalid: {
+        borderColor: "#F87171",
+    },
+    fieldErrorText: {
+        color: "#FCA5A5",
+        fontSize: 12,
+        marginTop: 4,
+    },
+    rowButtons: {
+        flexDirection: "row",
+        gap: 8,
+    },
+    flexColumn: {
+        flex: 1,
+        gap: 6,
+    },
+    primaryButton: {
+        flex: 1,
+        backgroundColor: "#8B5CF6",
+        paddingVertical: 11,
+        borderRadius: 12,
+        alignItems: "center",
+        justifyContent: "center",
+    },
+    primaryButtonText: {
+        color: "#F8FAFC",
+        fontSize: 14,
+        fontWeight: "700",
+    },
+    ghostButton: {
+        flex: 1,
+        borderColor: "#374151",
+        borderWidth: 1,
+        backgroundColor: "#111827",
+        paddingVertical: 11,
+        borderRadius: 12,
+        alignItems: "center",
+        justifyContent: "center",
+    },
+    ghostButtonText: {
+        color: "#E5E7EB",
+        fontSize: 14,
+        fontWeight: "600",
+    },
+    dangerButton: {
+        flex: 1,
+        backgroundColor: "#B91C1C",
+        paddingVertical: 11,
+        borderRadius: 12,
+        alignItems: "center",
+        justifyContent: "center",
+    },
+    dangerButtonText: {
+        color: "#FEF2F2",
+        fontSize: 14,
+        fontWeight: "700",
+    },
+    killSwitchHeaderButton: {
+        marginRight: 12,
+        borderColor: "#B91C1C",
+        borderWidth: 1,
+        borderRadius: 10,
+        paddingHorizontal: 10,
+        paddingVertical: 5,
+    },
+    killSwitchHeaderText: {
+        color: "#F87171",
+        fontSize: 12,
+        fontWeight: "800",
+        letterSpacing: 1,
+    },
+    buttonPressed: {
+        opacity: 0.7,
+    },
+    buttonDisabled: {
+        opacity: 0.5,
+    },
+    optionButton: {
+        flex: 1,
+        borderColor: "#374151",
+        borderWidth: 1,
+        backgroundColor: "#111827",
+        paddingVertical: 10,
+        borderRadius: 12,
+        alignItems: "center",
+    },
+    optionButtonActive: {
+        borderColor: "#8B5CF6",
+        backgroundColor: "#2E1065",
+    },
+    optionText: {
+        color: "#E5E7EB",
+        fontSize: 14,
+        fontWeight: "600",
+    },
+    optionTextActive: {
+        color: "#DDD6FE",
+    },
+    heroCard: {
+        backgroundColor: "#0B1020",
+        borderColor: "#1F2937",
+        borderWidth: 1,
+        borderRadius: 18,
+        padding: 14,
+        gap: 10,
+    },
+    heroTopRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+    },
+    heroTitle: {
+        color: "#F8FAFC",
+        fontSize: 22,
+        fontWeight: "700",
+    },
+    heroSubtitle: {
+        color: "#9CA3AF",
+        fontSize: 12,
+    },
+    healthBadge: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 6,
+        backgroundColor: "#111827",
+        borderColor: "#1F2937",
+        borderWidth: 1,
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 999,
+    },
+    healthDot: {
+        width: 8,
+        height: 8,
+        borderRadius: 99,
+    },
+    healthLabel: {
+        color: "#E5E7EB",
+        fontSize: 11,
+        fontWeight: "700",
+    },
+    metricsRow: {
+        flexDirection: "row",
+        gap: 10,
+    },
+    metricCard: {
+        flex: 1,
+        backgroundColor: "#0B1020",
+        borderColor: "#1F2937",
+        borderWidth: 1,
+        borderRadius: 14,
+        paddingVertical: 12,
+        paddingHorizontal: 10,
+    },
+    metricLabel: {
+        color: "#94A3B8",
+        fontSize: 12,
+        fontWeight: "600",
+    },
+    metricValue: {
+        color: "#F8FAFC",
+        fontSize: 18,
+        fontWeight: "700",
+        marginTop: 4,
+    },
+    panel: {
+        backgroundColor: "#0B1020",
+        borderColor: "#1F2937",
+        borderWidth: 1,
+        borderRadius: 14,
+        padding: 12,
+        gap: 6,
+    },
+    panelTitle: {
+        color: "#F8FAFC",
+        fontSize: 14,
+        fontWeight: "700",
+    },
+    panelLine: {
+        color: "#CBD5E1",
+        fontSize: 13,
+    },
+    sectionTitle: {
+        color: "#E2E8F0",
+        fontSize: 16,
+        fontWeight: "700",
+        marginTop: 4,
+    },
+    notificationCard: {
+        backgroundColor: "#0A0F1D",
+        borderColor: "#1F2937",
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 12,
+        marginBottom: 8,
+        gap: 4,
+    },
+    tabLabelRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 4,
+    },
+    tabLabel: {
+        fontSize: 13,
+        fontWeight: "600",
+    },
+    tabBadge: {
+        color: "#F9FAFB",
+        backgroundColor: "#7C3AED",
+        fontSize: 11,
+        fontWeight: "700",
+        borderRadius: 8,
+        overflow: "hidden",
+        paddingHorizontal: 5,
+        minWidth: 16,
+        textAlign: "center",
+    },
+    paperBadge: {
+        color: "#FCD34D",
+        backgroundColor: "#422006",
+        fontSize: 10,
+        fontWeight: "800",
+        letterSpacing: 1,
+        borderRadius: 6,
+        overflow: "hidden",
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+    },
+    paperNotice: {
+        backgroundColor: "#1C1206",
+        borderColor: "#B45309",
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 10,
+    },
+    paperNoticeText: {
+        color: "#FCD34D",
+        fontSize: 12,
+        fontWeight: "600",
+    },
+    notificationUnread: {
+        borderColor: "#8B5CF6",
+        backgroundColor: "#120F24",
+    },
+    positionCard: {
+        backgroundColor: "#0B1020",
+        borderColor: "#1F2937",
+        borderWidth: 1,
+        borderRadius: 14,
+        padding: 12,
+        marginBottom: 8,
+        gap: 6,
+    },
+    equityCurve: {
+        height: 120,
+        flexDirection: "row",
+        alignItems: "flex-end",
+        gap: 1,
+    },
+    progressTrack: {
+        height: 6,
+        borderRadius: 3,
+        backgroundColor: "#1F2937",
+        overflow: "hidden",
+    },
+    progressFill: {
+        height: 6,
+    },
+    calendarRow: {
+        flexDirection: "row",
+        gap: 4,
+    },
+    calendarHeader: {
+        flex: 1,
+        color: "#94A3B8",
+        fontSize: 11,
+        fontWeight: "600",
+        textAlign: "center",
+    },
+    calendarCell: {
+        flex: 1,
+        aspectRatio: 1,
+        borderRadius: 6,
+        alignItems: "center",
+        justifyContent: "center",
+    },
+    calendarCellSelected: {
+        borderColor: "#A78BFA",
+        borderWidth: 2,
+    },
+    calendarDay: {
+        color: "#F8FAFC",
+        fontSize: 12,
+        fontWeight: "600",
+    },
+    sparkline: {
+        height: 36,
+        flexDirection: "row",
+        alignItems: "flex-end",
+        gap: 1,
+    },
+    equityBar: {
+        flex: 1,
+        borderTopLeftRadius: 2,
+        borderTopRightRadius: 2,
+    },
+    activeCard: {
+        borderColor: "#8B5CF6",
+    },
+    pnlPositive: {
+        color: "#22C55E",
+        fontWeight: "700",
+    },
+    pnlNegative: {
+        color: "#EF4444",
+        fontWeight: "700",
+    },
+    notificationTitle: {
+        color: "#F8FAFC",
+        fontSize: 14,
+        fontWeight: "700",
+    },
+    notificationBody: {
+        color: "#CBD5E1",
+        fontSize: 13,
+        lineHeight: 18,
+    },
+    feedbackSpinner: {
+        marginTop: 6,
+    },
+    errorText: {
+        color: "#FCA5A5",
+        fontSize: 13,
+        marginTop: 6,
+    },
+    warningText: {
+        color: "#FCD34D",
+        fontSize: 13,
+        marginTop: 6,
+    },
+    successText: {
+        color: "#86EFAC",
+        fontSize: 13,
+        marginTop: 6,
+    },
+});
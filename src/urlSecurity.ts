@@ -0,0 +1,45 @@
+export type UrlSecurity = "encrypted" | "local" | "insecure";
+
+const URL_PATTERN = /^([a-z][a-z0-9+.-]*):\/\/(\[[^\]]*\]|[^/:?#]*)/i;
+// Loopback, private ranges, the Android emulator's host alias and mDNS names never leave the local network.
+const LOCAL_HOST_PATTERNS = [
+    /^localhost$/,
+    /^127\.\d+\.\d+\.\d+$/,
+    /^10\.\d+\.\d+\.\d+$/,
+    /^192\.168\.\d+\.\d+$/,
+    /^172\.(1[6-9]|2\d|3[01])\.\d+\.\d+$/,
+    /^\[(::1|f[cd][0-9a-f:]*)\]$/,
+    /\.local$/,
+];
+
+// How well a base URL protects what is sent to it. mock:// is answered in-process and counts as local.
+export function urlSecurity(baseUrl: string): UrlSecurity {
+    const match = URL_PATTERN.exec(baseUrl.trim());
+    if (!match) {
+        return "insecure";
+    }
+    const scheme = match[1].toLowerCase();
+    const host = match[2].toLowerCase();
+    if (scheme === "https") {
+        return "encrypted";
+    }
+    if (scheme === "mock" || (scheme === "http" && LOCAL_HOST_PATTERNS.some((pattern) => pattern.test(host)))) {
+        return "local";
+    }
+    return "insecure";
+}
+
+// Shown next to credential forms; null when the URL is encrypted.
+export function credentialWarning(baseUrl: string): string | null {
+    switch (urlSecurity(baseUrl)) {
+        case "encrypted":
+            return null;
+        case "local":
+            return "The API URL is on this device or your local network and is not encrypted. Only use it for testing.";
+        case "insecure":
+            return (
+                `${baseUrl.trim() || "The API URL"} is not HTTPS, so your MT5 password would be readable by anyone on ` +
+                "the network. Credentials will not be sent until you switch to an https:// URL."
+            );
+    }
+}
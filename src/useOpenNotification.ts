@@ -0,0 +1,27 @@
+import { useNavigation } from "@react-navigation/native";
+
+import type { NotificationItem } from "./api";
+import type { TabNavigation } from "./navigation/types";
+import { notificationTarget } from "./notifications";
+import { useAppStore } from "./store";
+
+// Opening a notification marks it read and jumps to the trade or bot state it is about. Read
+// state is cosmetic, so a failed mark-read request is not surfaced.
+export function useOpenNotification(): (notification: NotificationItem) => void {
+    const navigation = useNavigation<TabNavigation>();
+    const { markNotificationsRead } = useAppStore();
+
+    return (notification) => {
+        if (!notification.read) {
+            markNotificationsRead([notification.id]).catch(() => undefined);
+        }
+        const target = notificationTarget(notification);
+        if (target?.screen === "TradeDetail") {
+            navigation.navigate("TradeDetail", { tradeId: target.tradeId });
+        } else if (target?.screen === "Home") {
+            navigation.navigate("Main", { screen: "Home" });
+        } else {
+            navigation.navigate("NotificationDetail", { notificationId: notification.id });
+        }
+    };
+}
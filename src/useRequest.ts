@@ -0,0 +1,45 @@
+import { useCallback, useState } from "react";
+
+import { isApiError } from "./api";
+
+export type RequestState = {
+    loading: boolean;
+    error: string | null;
+    successMessage: string | null;
+    setError: (message: string | null) => void;
+    setSuccessMessage: (message: string | null) => void;
+    resetFeedback: () => void;
+    run: <T>(task: () => Promise<T>) => Promise<T | null>;
+};
+
+// Loading and feedback state for one screen. `run` returns null when the task failed, after
+// putting the error message on screen; aborted requests are dropped silently.
+export function useRequest(): RequestState {
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+    const resetFeedback = useCallback(() => {
+        setError(null);
+        setSuccessMessage(null);
+    }, []);
+
+    const run = useCallback(async <T>(task: () => Promise<T>): Promise<T | null> => {
+        try {
+            setLoading(true);
+            setError(null);
+            setSuccessMessage(null);
+            return await task();
+        } catch (requestError) {
+            if (isApiError(requestError) && requestError.kind === "aborted") {
+                return null;
+            }
+            setError(requestError instanceof Error ? requestError.message : "Something went wrong");
+            return null;
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    return { loading, error, successMessage, setError, setSuccessMessage, resetFeedback, run };
+}
@@ -0,0 +1,194 @@
+import type { TradingWindow } from "./api";
+import { ConfigForm, parseBlackoutDates } from "./configForm";
+import { isDateString, isValidTimeZone, parseClockTime } from "./schedule";
+import { SymbolOverrideDraft, parseSymbols } from "./symbolConfig";
+
+export type ConfigField = Exclude<keyof ConfigForm, "symbolOverrides" | "tradingWindows">;
+
+export type OverrideField = Exclude<keyof SymbolOverrideDraft, "enabled">;
+
+export type WindowField = Exclude<keyof TradingWindow, "name">;
+
+// Keyed by ConfigField, or by overrideFieldKey() / windowFieldKey() for per-symbol and per-window fields.
+export type FieldErrors = Record<string, string>;
+
+export type LotLimits = {
+    min: number;
+    max: number;
+    step: number;
+};
+
+// Typical MT5 retail limits; brokers that report their own can pass them to validateConfigForm.
+export const DEFAULT_LOT_LIMITS: LotLimits = { min: 0.01, max: 100, step: 0.01 };
+
+export const SESSION_MINUTES_BOUNDS = { min: 5, max: 1440 };
+
+export const MAX_TRADES_BOUNDS = { min: 1, max: 500 };
+
+const SYMBOL_PATTERN = /^[A-Z0-9._]{3,15}$/;
+
+export function overrideFieldKey(symbol: string, field: OverrideField): string {
+    return `${symbol}.${field}`;
+}
+
+export function windowFieldKey(index: number, field: WindowField): string {
+    return `window${index}.${field}`;
+}
+
+function parseNumber(text: string): number | null {
+    const trimmed = text.trim();
+    if (!trimmed) {
+        return null;
+    }
+    const value = Number(trimmed);
+    return Number.isFinite(value) ? value : null;
+}
+
+function checkPositive(text: string, label: string): string | null {
+    const value = parseNumber(text);
+    if (value === null) {
+        return `${label} must be a number`;
+    }
+    return value > 0 ? null : `${label} must be greater than zero`;
+}
+
+function checkQuantity(text: string, limits: LotLimits): string | null {
+    const value = parseNumber(text);
+    if (value === null) {
+        return "Quantity must be a number";
+    }
+    if (value < limits.min || value > limits.max) {
+        return `Quantity must be between ${limits.min} and ${limits.max} lots`;
+    }
+    // Compared in whole steps to avoid floating point noise such as 0.07 / 0.01 = 7.000000000000001.
+    const steps = value / limits.step;
+    if (Math.abs(steps - Math.round(steps)) > 1e-6) {
+        return `Quantity must be a multiple of ${limits.step}`;
+    }
+    return null;
+}
+
+function checkInteger(text: string, label: string, bounds: { min: number; max: number }): string | null {
+    const value = parseNumber(text);
+    if (value === null || !Number.isInteger(value)) {
+        return `${label} must be a whole number`;
+    }
+    if (value < bounds.min || value > bounds.max) {
+        return `${label} must be between ${bounds.min} and ${bounds.max}`;
+    }
+    return null;
+}
+
+function checkLossWithinCapital(text: string, label: string, capital: number | null): string | null {
+    const positiveError = checkPositive(text, label);
+    if (positiveError) {
+        return positiveError;
+    }
+    if (capital !== null && capital > 0 && Math.abs(Number(text)) > capital) {
+        return `${label} cannot exceed the allocated capital (${capital})`;
+    }
+    return null;
+}
+
+function validateOverride(
+    symbol: string,
+    draft: SymbolOverrideDraft,
+    capital: number | null,
+    limits: LotLimits,
+    errors: FieldErrors,
+): void {
+    if (!draft.enabled) {
+        return;
+    }
+    const checks: [OverrideField, string | null][] = [
+        ["quantity", draft.quantity.trim() ? checkQuantity(draft.quantity, limits) : null],
+        ["profitThreshold", draft.profitThreshold.trim() ? checkPositive(draft.profitThreshold, "Profit threshold") : null],
+        [
+            "lossThreshold",
+            draft.lossThreshold.trim() ? checkLossWithinCapital(draft.lossThreshold, "Loss threshold", capital) : null,
+        ],
+        ["maxTrades", draft.maxTrades.trim() ? checkInteger(draft.maxTrades, "Max trades", MAX_TRADES_BOUNDS) : null],
+    ];
+    for (const [field, message] of checks) {
+        if (message) {
+            errors[overrideFieldKey(symbol, field)] = message;
+        }
+    }
+}
+
+function validateSchedule(form: ConfigForm, errors: FieldErrors): void {
+    if (!form.tradingWindows.length) {
+        return;
+    }
+    if (!isValidTimeZone(form.timezone.trim())) {
+        errors.timezone = `${form.timezone.trim() || "An empty name"} is not a known timezone (e.g. Europe/London)`;
+    }
+    const invalidDate = parseBlackoutDates(form.blackoutDates).find((date) => !isDateString(date));
+    if (invalidDate) {
+        errors.blackoutDates = `${invalidDate} is not a YYYY-MM-DD date`;
+    }
+    form.tradingWindows.forEach((window, index) => {
+        const start = parseClockTime(window.start);
+        const end = parseClockTime(window.end);
+        if (start === null) {
+            errors[windowFieldKey(index, "start")] = "Use HH:MM, e.g. 08:00";
+        }
+        if (end === null) {
+            errors[windowFieldKey(index, "end")] = "Use HH:MM, e.g. 11:00";
+        } else if (start !== null && end <= start) {
+            errors[windowFieldKey(index, "end")] = "The window must end after it starts";
+        }
+        if (!window.days.length) {
+            errors[windowFieldKey(index, "days")] = "Pick at least one day";
+        }
+    });
+}
+
+// Checks every field of the configuration form plus the rules that span fields. Returns an empty
+// object when the form can be saved.
+export function validateConfigForm(form: ConfigForm, limits: LotLimits = DEFAULT_LOT_LIMITS): FieldErrors {
+    const errors: FieldErrors = {};
+    const symbols = parseSymbols(form.symbols);
+    const invalidSymbol = symbols.find((symbol) => !SYMBOL_PATTERN.test(symbol));
+
+    if (!symbols.length) {
+        errors.symbols = "Add at least one symbol (e.g. XAUUSD)";
+    } else if (invalidSymbol) {
+        errors.symbols = `${invalidSymbol} is not a valid symbol`;
+    } else if (symbols.every((symbol) => form.symbolOverrides[symbol]?.enabled === false)) {
+        errors.symbols = "Enable at least one symbol";
+    }
+
+    const fieldChecks: [ConfigField, string | null][] = [
+        ["quantity", checkQuantity(form.quantity, limits)],
+        ["maxTrades", checkInteger(form.maxTrades, "Max trades", MAX_TRADES_BOUNDS)],
+        ["profitTarget", checkPositive(form.profitTarget, "Profit target")],
+        ["allocatedCapital", checkPositive(form.allocatedCapital, "Allocated capital")],
+        ["sessionMinutes", checkInteger(form.sessionMinutes, "Session duration", SESSION_MINUTES_BOUNDS)],
+    ];
+    for (const [field, message] of fieldChecks) {
+        if (message) {
+            errors[field] = message;
+        }
+    }
+
+    const capital = errors.allocatedCapital ? null : parseNumber(form.allocatedCapital);
+    const lossError = checkLossWithinCapital(form.lossLimit, "Loss limit", capital);
+    if (lossError) {
+        errors.lossLimit = lossError;
+    }
+
+    for (const symbol of symbols) {
+        const draft = form.symbolOverrides[symbol];
+        if (draft) {
+            validateOverride(symbol, draft, capital, limits, errors);
+        }
+    }
+
+    validateSchedule(form, errors);
+    return errors;
+}
+
+export function hasErrors(errors: FieldErrors): boolean {
+    return Object.keys(errors).length > 0;
+}